@@ -1,95 +1,460 @@
-import { useState, useRef, useEffect } from 'react';
-import Canvas, { type CanvasHandle } from './components/Whiteboard/Canvas';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import Canvas, { type CanvasHandle, type CaptureRegion } from './components/Whiteboard/Canvas';
 import PDFLayer, { type PDFLayerHandle } from './components/Whiteboard/PDFLayer';
-import FloatingBar from './components/UI/FloatingBar';
+import FloatingBar, { type CaptureOption } from './components/UI/FloatingBar';
 import ModeSwitcher from './components/UI/ModeSwitcher';
 import Toolbar from './components/UI/Toolbar';
 import SettingsModal from './components/UI/SettingsModal';
-import { analyzeWithAzure, synthesizeSpeech, stopAllProcessing, isConfigured, type ChatMessage } from './services/azure';
-import type { PDFAnnotations } from './types/annotationTypes';
+import TranscriptPanel from './components/UI/TranscriptPanel';
+import BoardList from './components/UI/BoardList';
+import ExportDialog from './components/UI/ExportDialog';
+import PagePicker, { type PageRange, type PageScope } from './components/UI/PagePicker';
+import DocumentPanel from './components/UI/DocumentPanel';
+import ZoomControls from './components/UI/ZoomControls';
+import { isConfigured, isVoiceInputConfigured } from './services/config';
+import { getActiveProvider, isAbortError, type ChatMessage } from './services/providers';
+import { createSpeechStream, stopAllProcessing } from './services/speech';
+import {
+  createBoard,
+  DEFAULT_BOARD_NAME,
+  listBoards,
+  loadBoard,
+  renameBoard,
+  restoreSession,
+  saveBoardDocument,
+  setActiveBoardId,
+  type Board,
+  type BoardContent
+} from './services/storage';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { useBoardAutosave } from './hooks/useBoardAutosave';
+import { useDocumentAnalysis, type ReadPages } from './hooks/useDocumentAnalysis';
+import { addItems, pageScope, replaceItems, scopePage, type Command, type HistoryScope } from './utils/history';
+import { isTextSelectionTool, MARKUP_COLORS, NOTE_COLORS, type Annotation, type PDFAnnotations, type Tool } from './types/annotationTypes';
+import { summarizeBoardText, summarizePdfNotes } from './utils/textSummary';
+import { SNAP_TO_SHAPE_LABEL } from './utils/shapeRecognition';
+import { exportBoard, type ExportOptions } from './utils/boardExport';
+import { downloadBlob, toFileName } from './utils/download';
+import { importAnnotations } from './utils/pdfAnnotations';
+import { DRAWING_MAX_TOKENS, drawingPrompt, extractDrawing, stripDrawingBlock } from './utils/aiDrawing';
+import type { Bounds } from './utils/geometry';
+import type { PdfZoom } from './utils/pdfZoom';
+import type { PageTextSelection } from './utils/textSelection';
 import styles from './components/Whiteboard/PDFViewer.module.css';
 import './App.css';
 
+// Palm rejection preference, remembered per browser like the AI settings
+const PEN_ONLY_STORAGE_KEY = 'pen_only';
+const AI_DRAWING_STORAGE_KEY = 'ai_drawing';
+
+const WHITEBOARD_CAPTURE_OPTIONS: CaptureOption[] = [
+  { value: 'viewport', label: 'Visible area' },
+  { value: 'content', label: 'Whole board' }
+];
+
+// What a question about a PDF carries: the page image, its extracted text, or both
+type PdfCaptureContent = 'page-text' | 'page' | 'text';
+
+const PDF_CAPTURE_OPTIONS: CaptureOption[] = [
+  { value: 'page-text', label: 'Images + text' },
+  { value: 'page', label: 'Images only' },
+  { value: 'text', label: 'Text only' }
+];
+
+// Images per request are limited by providers, and each page image is large
+const MAX_CAPTURED_PAGES = 10;
+
 function App() {
   const [mode, setMode] = useState<'whiteboard' | 'pdf'>('whiteboard');
-  const [tool, setTool] = useState<'pen' | 'eraser'>('pen');
+  const [tool, setTool] = useState<Tool>('pen');
   const [penColor, setPenColor] = useState<'white' | 'black'>('white');
+  const [noteColor, setNoteColor] = useState(NOTE_COLORS[0].value);
+  const [markupColor, setMarkupColor] = useState(MARKUP_COLORS[0].value);
+  const [snapToShape, setSnapToShape] = useState(false);
+  const [penOnly, setPenOnly] = useState(() => localStorage.getItem(PEN_ONLY_STORAGE_KEY) === 'true');
+  // Whether whiteboard replies may come with a drawing, and the latest one awaiting a decision
+  const [aiDrawingEnabled, setAiDrawingEnabled] = useState(() => localStorage.getItem(AI_DRAWING_STORAGE_KEY) === 'true');
+  const [aiLayer, setAiLayer] = useState<Annotation[]>([]);
+  // Scope of the stroke that was just snapped to a shape, offered for reverting to the raw ink
+  const [snappedScope, setSnappedScope] = useState<HistoryScope | null>(null);
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [pdfAnnotations, setPdfAnnotations] = useState<PDFAnnotations>({});
+  const [whiteboardAnnotations, setWhiteboardAnnotations] = useState<Annotation[]>([]);
+  const [captureRegion, setCaptureRegion] = useState<CaptureRegion>('viewport');
+  const [pdfCapture, setPdfCapture] = useState<PdfCaptureContent>('page-text');
+  // Page whose annotations Undo, Redo and Clear act on in PDF mode: the one last drawn on
+  const [activePdfPage, setActivePdfPage] = useState(1);
+  // Page taking up most of the view, which "This page" questions are about
+  const [visiblePdfPage, setVisiblePdfPage] = useState(1);
+  const [pdfPageCount, setPdfPageCount] = useState(0);
+  const [pdfPageScope, setPdfPageScope] = useState<PageScope>('current');
+  const [pdfPageRange, setPdfPageRange] = useState<PageRange>({ from: 1, to: 1 });
+  const [pdfZoom, setPdfZoom] = useState<PdfZoom>('auto');
+  // The scale the zoom works out to, in CSS pixels per point, reported by the PDF layer
+  const [pdfScale, setPdfScale] = useState(1);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
   const [conversationHistory, setConversationHistory] = useState<ChatMessage[]>([]);
   const [showSettings, setShowSettings] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // The PDF's page sidebar and the document analysis panel share the left side, one at a time
+  const [pdfSidePanel, setPdfSidePanel] = useState<'pages' | 'document' | null>(null);
   const [apiConfigured, setApiConfigured] = useState(false);
+  const [voiceConfigured, setVoiceConfigured] = useState(isVoiceInputConfigured);
+  // Board being worked on; null until the last session has been restored
+  const [boardId, setBoardId] = useState<string | null>(null);
+  const [boardName, setBoardName] = useState(DEFAULT_BOARD_NAME);
   const canvasRef = useRef<CanvasHandle>(null);
   const pdfLayerRef = useRef<PDFLayerHandle>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Check if API is configured on mount
   useEffect(() => {
     setApiConfigured(isConfigured());
   }, []);
 
+  const applyToScope = useCallback((scope: HistoryScope, update: (annotations: Annotation[]) => Annotation[]) => {
+    const page = scopePage(scope);
+    if (page === null) {
+      setWhiteboardAnnotations(update);
+    } else {
+      setPdfAnnotations(prev => ({ ...prev, [page]: update(prev[page] ?? []) }));
+    }
+  }, []);
+
+  const history = useUndoHistory<Annotation>(applyToScope);
+  const clearHistory = history.clear;
+  const activeScope: HistoryScope = mode === 'whiteboard' ? 'whiteboard' : pageScope(activePdfPage);
 
+  // Everything autosaved with the board; the PDF itself is stored once, when it is uploaded
+  const boardContent = useMemo<BoardContent>(() => ({
+    mode,
+    whiteboard: whiteboardAnnotations,
+    pdfAnnotations,
+    conversation: conversationHistory
+  }), [mode, whiteboardAnnotations, pdfAnnotations, conversationHistory]);
 
-  // Helper to get the appropriate image based on current mode
-  const getCapturedImage = (): string => {
-    if (mode === 'pdf' && pdfFile && pdfLayerRef.current) {
-      return pdfLayerRef.current.captureCurrentPage();
+  const flushAutosave = useBoardAutosave(boardId, boardContent);
+
+  // Summary of, and questions about, the whole open PDF
+  const documentAnalysis = useDocumentAnalysis();
+  const resetDocumentAnalysis = documentAnalysis.reset;
+
+  // Swaps the workspace over to a loaded board. Undo history belongs to the board it was made on.
+  const openBoard = useCallback((board: Board) => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    stopAllProcessing();
+    setIsProcessing(false);
+    setStreamingText('');
+
+    setBoardId(board.id);
+    setBoardName(board.name);
+    setMode(board.mode);
+    if (board.mode === 'whiteboard') {
+      setTool(prev => (isTextSelectionTool(prev) ? 'pen' : prev));
     }
-    return canvasRef.current ? canvasRef.current.getDataURL() : '';
+    setWhiteboardAnnotations(board.whiteboard);
+    setPdfAnnotations(board.pdfAnnotations);
+    setConversationHistory(board.conversation);
+    setPdfFile(board.document);
+    setActivePdfPage(1);
+    setVisiblePdfPage(1);
+    setSnappedScope(null);
+    setAiLayer([]);
+    clearHistory();
+    resetDocumentAnalysis();
+    setActiveBoardId(board.id);
+  }, [clearHistory, resetDocumentAnalysis]);
+
+  // Reopen the board from the last visit
+  useEffect(() => {
+    restoreSession()
+      .then(openBoard)
+      .catch(err => console.error('Could not restore the last session:', err));
+  }, [openBoard]);
+
+  // Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes, unless the user is typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        // Any undo or redo makes the "keep ink" offer stale
+        setSnappedScope(null);
+      }
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          history.redo(activeScope);
+        } else {
+          history.undo(activeScope);
+        }
+      } else if (key === 'y') {
+        e.preventDefault();
+        history.redo(activeScope);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, activeScope]);
+
+  // The "keep ink" offer fades after a few seconds
+  useEffect(() => {
+    if (!snappedScope) return;
+    const timer = setTimeout(() => setSnappedScope(null), 5000);
+    return () => clearTimeout(timer);
+  }, [snappedScope]);
+
+  const executeCommand = (scope: HistoryScope, command: Command<Annotation>) => {
+    history.execute(scope, command);
+    setSnappedScope(command.label === SNAP_TO_SHAPE_LABEL ? scope : null);
   };
 
-  const handleSendMessage = async (text: string) => {
+  const handlePenOnlyChange = (enabled: boolean) => {
+    setPenOnly(enabled);
+    localStorage.setItem(PEN_ONLY_STORAGE_KEY, String(enabled));
+  };
+
+  const handleAiDrawingChange = (enabled: boolean) => {
+    setAiDrawingEnabled(enabled);
+    localStorage.setItem(AI_DRAWING_STORAGE_KEY, String(enabled));
+  };
+
+  // Accepting adds the AI's drawing to the board as one undoable step
+  const acceptAiLayer = () => {
+    if (aiLayer.length === 0) return;
+    executeCommand('whiteboard', addItems(aiLayer, 'Add AI drawing'));
+    setAiLayer([]);
+  };
+
+  // Editing accepts the drawing and picks up the tool that changes the text it added most of.
+  // Only offered when it added text, since shapes and lines can't be changed once drawn.
+  const aiNotes = aiLayer.filter(item => item.type === 'text' && item.kind === 'note').length;
+  const aiLabels = aiLayer.filter(item => item.type === 'text' && item.kind === 'text').length;
+  const editAiLayer = () => {
+    acceptAiLayer();
+    setTool(aiNotes >= aiLabels ? 'note' : 'text');
+  };
+
+  const handleKeepInk = () => {
+    if (snappedScope) {
+      history.undo(snappedScope);
+      setSnappedScope(null);
+    }
+  };
+
+
+
+  // Pages a PDF question is about, in order. Long selections are cut to the first few pages.
+  const getCapturedPages = (): number[] => {
+    let pages = [visiblePdfPage];
+    // With nothing annotated (any more), the visible page stands in
+    if (pdfPageScope === 'annotated' && annotatedPdfPages.length > 0) {
+      pages = annotatedPdfPages;
+    } else if (pdfPageScope === 'range') {
+      const from = Math.min(pdfPageRange.from, pdfPageRange.to);
+      const to = Math.max(pdfPageRange.from, pdfPageRange.to);
+      pages = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    }
+    return pages.slice(0, MAX_CAPTURED_PAGES);
+  };
+
+  // What a question sends about the current view: the board or PDF page images and, for a PDF,
+  // the pages' own text so the AI doesn't have to read small print off the images. A board
+  // capture also says where on the board it was taken, for the AI to draw back onto.
+  const captureForRequest = async (): Promise<{ images: string[]; attachedText: string; drawingArea?: Bounds }> => {
+    const layer = pdfLayerRef.current;
+    if (mode !== 'pdf' || !pdfFile || !layer) {
+      const canvas = canvasRef.current;
+      const image = canvas ? canvas.getDataURL(captureRegion) : '';
+      const images = image.length > 100 ? [image] : [];
+      const drawingArea = canvas && mode === 'whiteboard' && aiDrawingEnabled && images.length > 0
+        ? canvas.getCaptureBounds(captureRegion)
+        : undefined;
+      return { images, attachedText: '', drawingArea };
+    }
+
+    const pages = getCapturedPages();
+    const images = pdfCapture === 'text'
+      ? []
+      : (await Promise.all(pages.map(page => layer.capturePage(page)))).filter(image => image.length > 100);
+    const notes: string[] = [];
+    if (images.length > 1) {
+      notes.push(`The attached images are pages ${pages.join(', ')} of the PDF, in that order.`);
+    }
+    if (pdfCapture !== 'page') {
+      // A page that can't be read still leaves the image to go on
+      try {
+        notes.push(await layer.getDocumentText(pages));
+      } catch (error) {
+        console.error("Could not extract the PDF's text:", error);
+      }
+    }
+    return { images, attachedText: notes.filter(Boolean).join('\n\n') };
+  };
+
+  // Typed text and notes, sent as text alongside the image
+  const getCapturedText = (): string =>
+    mode === 'pdf' ? summarizePdfNotes(pdfAnnotations) : summarizeBoardText(whiteboardAnnotations);
+
+  // Each request gets its own controller so Stop (or a newer request) cancels it cleanly
+  const beginRequest = (): AbortController => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsProcessing(true);
+    return controller;
+  };
+
+  const endRequest = (controller: AbortController) => {
+    // A newer request owns the UI state now; leave it alone
+    if (abortControllerRef.current !== controller) return;
+    abortControllerRef.current = null;
+    setIsProcessing(false);
+    setStreamingText('');
+  };
+
+  // Streams the reply into the UI and speaks it sentence by sentence as it arrives. Given the
+  // captured area, the AI may also draw on it; the drawing goes to the AI layer, not the reply.
+  const askAI = async (imageData: string | string[], prompt: string, signal: AbortSignal, attachedText?: string, drawingArea?: Bounds) => {
+    setStreamingText('');
+    const speech = createSpeechStream(signal);
+    const visibleText = (text: string) => (drawingArea ? stripDrawingBlock(text) : text);
+
+    const result = await getActiveProvider().analyze(imageData, prompt, conversationHistory, {
+      onPartial: (text) => {
+        setStreamingText(visibleText(text));
+        speech.update(visibleText(text));
+      },
+      signal,
+      context: [getCapturedText(), drawingArea && drawingPrompt(drawingArea)].filter(Boolean).join('\n\n'),
+      attachedText,
+      maxTokens: drawingArea ? DRAWING_MAX_TOKENS : undefined
+    });
+
+    // A turn stopped mid-reply is dropped rather than kept half-finished
+    if (signal.aborted) return;
+
+    let assistantMessage = result.assistantMessage;
+    let response = result.response;
+    if (drawingArea) {
+      const drawing = extractDrawing(result.response, drawingArea, penColor === 'white' ? '#ffffff' : '#000000');
+      response = drawing.text || (drawing.items.length > 0 ? 'I drew on the board.' : 'No response generated.');
+      assistantMessage = { ...assistantMessage, content: response };
+      if (drawing.items.length > 0) {
+        setAiLayer(drawing.items);
+      }
+    }
+
+    // Update conversation history with new messages
+    setConversationHistory(prev => [...prev, result.newMessage, assistantMessage]);
+    setStreamingText('');
+
+    await speech.finish(response);
+  };
+
+  const handleSendMessage = async (text: string) => {
+    const controller = beginRequest();
     try {
-      const capturedImage = getCapturedImage();
-      console.log("Captured image data URL:", capturedImage ? capturedImage.substring(0, 100) + "..." : "EMPTY");
-      console.log("Image data length:", capturedImage.length);
+      const { images, attachedText, drawingArea } = await captureForRequest();
+      console.log("Captured images:", images.length, images.map(image => image.length));
+      console.log("Attached text length:", attachedText.length);
       console.log("Conversation history length:", conversationHistory.length);
 
-      const result = await analyzeWithAzure(
-        capturedImage.length > 100 ? capturedImage : '',
-        text,
-        conversationHistory
-      );
-
-      // Update conversation history with new messages
-      setConversationHistory(prev => [...prev, result.newMessage, result.assistantMessage]);
+      await askAI(images, text, controller.signal, attachedText, drawingArea);
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log("Request cancelled");
+      } else {
+        console.error("Error processing request:", error);
+      }
+    } finally {
+      endRequest(controller);
+    }
+  };
 
-      await synthesizeSpeech(result.response);
+  const handleVoiceInput = async (audio: Blob) => {
+    const controller = beginRequest();
+    let transcript = '';
+    try {
+      transcript = await getActiveProvider().transcribe(audio, controller.signal);
+      console.log("Transcript:", transcript);
     } catch (error) {
-      console.error("Error processing request:", error);
+      if (isAbortError(error)) {
+        console.log("Transcription cancelled");
+      } else {
+        console.error("Transcription error:", error);
+      }
     } finally {
-      setIsProcessing(false);
+      endRequest(controller);
+    }
+
+    if (transcript && !controller.signal.aborted) {
+      await handleSendMessage(transcript);
     }
   };
 
   const handleCapture = async () => {
-    const imageData = getCapturedImage();
-    if (imageData) {
-      setIsProcessing(true);
-      try {
-        const prompt = mode === 'pdf'
-          ? "Analyze this PDF page and any annotations. Provide helpful insights."
-          : "Analyze this drawing and give me ideas.";
-        const result = await analyzeWithAzure(imageData, prompt, conversationHistory);
-
-        // Update conversation history
-        setConversationHistory(prev => [...prev, result.newMessage, result.assistantMessage]);
+    const controller = beginRequest();
+    try {
+      const { images, attachedText, drawingArea } = await captureForRequest();
+      if (images.length === 0 && !attachedText) return;
 
-        await synthesizeSpeech(result.response);
-      } catch (error) {
+      const prompt = mode === 'pdf'
+        ? getCapturedPages().length > 1
+          ? "Analyze these PDF pages and any annotations. Provide helpful insights."
+          : "Analyze this PDF page and any annotations. Provide helpful insights."
+        : "Analyze this drawing and give me ideas.";
+      await askAI(images, prompt, controller.signal, attachedText, drawingArea);
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log("Capture cancelled");
+      } else {
         console.error("Capture error:", error);
-      } finally {
-        setIsProcessing(false);
       }
+    } finally {
+      endRequest(controller);
     }
   };
 
+  // The question quotes the passage; the image shows it in place on the page
+  const handleAskAboutSelection = async (selection: PageTextSelection, image: string) => {
+    const controller = beginRequest();
+    try {
+      const prompt = `About this passage on page ${selection.pageNumber}: ${JSON.stringify(selection.text)}\n\n`
+        + 'Explain what it means, using the surrounding part of the page shown in the image for context.';
+      await askAI(image, prompt, controller.signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log("Selection question cancelled");
+      } else {
+        console.error("Selection question error:", error);
+      }
+    } finally {
+      endRequest(controller);
+    }
+  };
 
+  const handleModeSwitch = (next: 'whiteboard' | 'pdf') => {
+    setMode(next);
+    // Text tools only work on a PDF's text
+    if (next === 'whiteboard' && isTextSelectionTool(tool)) {
+      setTool('pen');
+    }
+  };
 
   const handleStop = () => {
+    const controller = abortControllerRef.current;
+    controller?.abort();
     stopAllProcessing();
-    setIsProcessing(false);
+    if (controller) {
+      endRequest(controller);
+    }
   };
 
   const handleClearConversation = () => {
@@ -97,20 +462,95 @@ function App() {
     console.log("Conversation history cleared");
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = event.target.files?.[0];
+    if (upload && upload.type === 'application/pdf') {
+      // Markup already in the PDF (from another reader or an earlier save) becomes editable
+      const { file, annotations } = await importAnnotations(upload);
       setPdfFile(file);
-      setPdfAnnotations({}); // Reset annotations for new PDF
+      setPdfAnnotations(annotations);
+      setActivePdfPage(1);
+      setVisiblePdfPage(1);
+      documentAnalysis.reset();
+      history.clear(scope => scope !== 'whiteboard');
+
+      if (!boardId) return;
+      try {
+        await saveBoardDocument(boardId, file);
+        // An unnamed board takes the document's name
+        if (boardName === DEFAULT_BOARD_NAME) {
+          const name = file.name.replace(/\.pdf$/i, '');
+          await renameBoard(boardId, name);
+          setBoardName(name);
+        }
+      } catch (err) {
+        console.error('Could not save the PDF:', err);
+      }
     }
   };
 
+  // Pending edits are written to the board being left before the next one loads
+  const handleOpenBoard = async (id: string) => {
+    try {
+      await flushAutosave();
+      const board = await loadBoard(id);
+      if (board) {
+        openBoard(board);
+      }
+    } catch (err) {
+      console.error('Could not open board:', err);
+    }
+  };
+
+  const handleCreateBoard = async () => {
+    try {
+      await flushAutosave();
+      openBoard(await createBoard());
+    } catch (err) {
+      console.error('Could not create board:', err);
+    }
+  };
+
+  const handleBoardRenamed = (id: string, name: string) => {
+    if (id === boardId) {
+      setBoardName(name);
+    }
+  };
+
+  // Deleting the open board moves on to the most recent remaining one, or a fresh board
+  const handleBoardDeleted = async (id: string) => {
+    if (id !== boardId) return;
+    try {
+      const [recent] = await listBoards();
+      const next = recent ? await loadBoard(recent.id) : null;
+      openBoard(next ?? await createBoard());
+    } catch (err) {
+      console.error('Could not open another board:', err);
+    }
+  };
+
+  const readPdfPages: ReadPages = (signal, onProgress) =>
+    pdfLayerRef.current ? pdfLayerRef.current.getAllPagesText(signal, onProgress) : Promise.resolve([]);
+
+  const documentTitle = pdfFile ? pdfFile.name.replace(/\.pdf$/i, '') : boardName;
+
+  // A new document starts the page range over
+  const handlePageCountChange = (pageCount: number) => {
+    setPdfPageCount(pageCount);
+    setPdfPageRange({ from: 1, to: Math.min(pageCount, 2) });
+  };
+
+  const handlePageCommand = (pageNumber: number, command: Command<Annotation>) => {
+    setActivePdfPage(pageNumber);
+    executeCommand(pageScope(pageNumber), command);
+  };
+
+  // Clearing is undoable; in PDF mode it clears the active page, matching the per-page undo history
   const handleClear = () => {
-    if (mode === 'whiteboard') {
-      canvasRef.current?.clear();
-    } else {
-      // Clear all PDF annotations
-      setPdfAnnotations({});
+    const annotations = mode === 'whiteboard' ? whiteboardAnnotations : pdfAnnotations[activePdfPage] ?? [];
+    if (annotations.length > 0) {
+      history.execute(activeScope, replaceItems(annotations, [], mode === 'whiteboard' ? 'Clear board' : 'Clear page'));
+      setSnappedScope(null);
     }
   };
 
@@ -120,11 +560,38 @@ function App() {
     }
   };
 
-  const currentColor = penColor === 'white' ? '#ffffff' : '#000000';
+  // Errors propagate to the dialog, which shows them
+  const handleExportBoard = async (options: ExportOptions) => {
+    const viewport = canvasRef.current?.getViewportBounds();
+    if (!viewport) return;
+
+    const blob = await exportBoard(whiteboardAnnotations, options, viewport, {
+      title: boardName,
+      conversation: conversationHistory
+    });
+    downloadBlob(blob, toFileName(boardName, options.format));
+  };
+
+  const annotatedPdfPages = Object.keys(pdfAnnotations)
+    .map(Number)
+    .filter(page => pdfAnnotations[page].length > 0)
+    .sort((a, b) => a - b);
+
+  const currentColor = tool === 'note' ? noteColor : penColor === 'white' ? '#ffffff' : '#000000';
 
   return (
     <div className="app-container">
-      <ModeSwitcher mode={mode} onSwitch={setMode} />
+      <ModeSwitcher mode={mode} onSwitch={handleModeSwitch} />
+
+      <BoardList
+        activeBoardId={boardId}
+        activeBoardName={boardName}
+        onOpen={handleOpenBoard}
+        onCreate={handleCreateBoard}
+        onRenamed={handleBoardRenamed}
+        onDeleted={handleBoardDeleted}
+        onFlush={flushAutosave}
+      />
 
       <div className="content-area">
         {/* Whiteboard background - only in whiteboard mode */}
@@ -141,7 +608,16 @@ function App() {
           visibility: mode === 'whiteboard' ? 'visible' : 'hidden',
           pointerEvents: mode === 'whiteboard' ? 'auto' : 'none'
         }}>
-          <Canvas ref={canvasRef} tool={tool} color={currentColor} />
+          <Canvas
+            ref={canvasRef}
+            annotations={whiteboardAnnotations}
+            aiAnnotations={aiLayer}
+            onCommand={(command) => executeCommand('whiteboard', command)}
+            tool={tool}
+            color={currentColor}
+            snapToShape={snapToShape}
+            penOnly={penOnly}
+          />
         </div>
 
         {/* PDF mode: show PDF with per-page annotation canvases */}
@@ -162,7 +638,17 @@ function App() {
                 tool={tool}
                 color={currentColor}
                 annotations={pdfAnnotations}
-                onAnnotationsChange={setPdfAnnotations}
+                onPageCommand={handlePageCommand}
+                markupColor={markupColor}
+                onAskAboutSelection={handleAskAboutSelection}
+                onPageCountChange={handlePageCountChange}
+                onVisiblePageChange={setVisiblePdfPage}
+                zoom={pdfZoom}
+                onScaleChange={setPdfScale}
+                sidebarOpen={pdfSidePanel === 'pages'}
+                onSidebarToggle={() => setPdfSidePanel(panel => (panel === 'pages' ? null : 'pages'))}
+                snapToShape={snapToShape}
+                penOnly={penOnly}
               />
             ) : (
               <div className={styles.placeholder}>
@@ -185,21 +671,123 @@ function App() {
         currentTool={tool}
         onToolChange={setTool}
         onClear={handleClear}
+        clearLabel={mode === 'pdf' ? 'Clear Page' : 'Clear All'}
+        onUndo={() => {
+          history.undo(activeScope);
+          setSnappedScope(null);
+        }}
+        onRedo={() => {
+          history.redo(activeScope);
+          setSnappedScope(null);
+        }}
+        canUndo={history.canUndo(activeScope)}
+        canRedo={history.canRedo(activeScope)}
         penColor={penColor}
         onPenColorChange={setPenColor}
-        showSave={mode === 'pdf' && !!pdfFile}
-        onSave={handleSavePdf}
+        noteColor={noteColor}
+        onNoteColorChange={setNoteColor}
+        showTextTools={mode === 'pdf' && !!pdfFile}
+        markupColor={markupColor}
+        onMarkupColorChange={setMarkupColor}
+        snapToShape={snapToShape}
+        onSnapToShapeChange={setSnapToShape}
+        penOnly={penOnly}
+        onPenOnlyChange={handlePenOnlyChange}
+        showSave={mode === 'whiteboard' || !!pdfFile}
+        onSave={mode === 'whiteboard' ? () => setShowExport(true) : handleSavePdf}
+        saveLabel={mode === 'whiteboard' ? 'Export Board' : 'Save PDF'}
+        onZoomToFit={mode === 'whiteboard' ? () => canvasRef.current?.zoomToFit() : undefined}
       />
 
+      {(snappedScope || (mode === 'whiteboard' && aiLayer.length > 0)) && (
+        <div className="notices">
+          {snappedScope && (
+            <div className="notice">
+              <span>Snapped to shape</span>
+              <button onClick={handleKeepInk}>Keep ink</button>
+            </div>
+          )}
+          {mode === 'whiteboard' && aiLayer.length > 0 && (
+            <div className="notice">
+              <span>AI drawing ({aiLayer.length} {aiLayer.length === 1 ? 'item' : 'items'})</span>
+              <button onClick={acceptAiLayer}>Accept</button>
+              {aiNotes + aiLabels > 0 && (
+                <button onClick={editAiLayer} title="Add it to the board and pick up a tool to change its text">Edit</button>
+              )}
+              <button className="secondary" onClick={() => setAiLayer([])}>Discard</button>
+            </div>
+          )}
+        </div>
+      )}
+
       <FloatingBar
         onSendMessage={handleSendMessage}
         onCapture={handleCapture}
         onStop={handleStop}
         onClearContext={handleClearConversation}
+        onVoiceInput={handleVoiceInput}
+        voiceEnabled={voiceConfigured}
+        captureOptions={mode === 'whiteboard' ? WHITEBOARD_CAPTURE_OPTIONS : pdfFile ? PDF_CAPTURE_OPTIONS : undefined}
+        captureOption={mode === 'whiteboard' ? captureRegion : pdfCapture}
+        drawingEnabled={aiDrawingEnabled}
+        onDrawingEnabledChange={mode === 'whiteboard' ? handleAiDrawingChange : undefined}
+        onCaptureOptionChange={(value) => {
+          if (mode === 'whiteboard') {
+            setCaptureRegion(value as CaptureRegion);
+          } else {
+            setPdfCapture(value as PdfCaptureContent);
+          }
+        }}
         isProcessing={isProcessing}
+        responseText={showTranscript ? '' : streamingText}
         hasContext={conversationHistory.length > 0}
       />
 
+      {mode === 'pdf' && pdfFile && pdfPageCount > 0 && (
+        <PagePicker
+          currentPage={visiblePdfPage}
+          pageCount={pdfPageCount}
+          scope={pdfPageScope}
+          onScopeChange={setPdfPageScope}
+          range={pdfPageRange}
+          onRangeChange={setPdfPageRange}
+          annotatedCount={annotatedPdfPages.length}
+          disabled={isProcessing}
+        />
+      )}
+
+      {mode === 'pdf' && pdfFile && pdfPageCount > 0 && (
+        <ZoomControls zoom={pdfZoom} scale={pdfScale} onZoomChange={setPdfZoom} />
+      )}
+
+      {mode === 'pdf' && pdfFile && pdfPageCount > 0 && (
+        <DocumentPanel
+          isOpen={pdfSidePanel === 'document'}
+          onToggle={() => setPdfSidePanel(panel => (panel === 'document' ? null : 'document'))}
+          pageCount={pdfPageCount}
+          analysis={documentAnalysis.analysis}
+          exchanges={documentAnalysis.exchanges}
+          progress={documentAnalysis.progress}
+          pendingQuestion={documentAnalysis.pendingQuestion}
+          streamingAnswer={documentAnalysis.streamingAnswer}
+          error={documentAnalysis.error}
+          isBusy={documentAnalysis.isBusy}
+          onAnalyze={() => documentAnalysis.analyze(readPdfPages, documentTitle)}
+          onAsk={(question) => documentAnalysis.ask(readPdfPages, question)}
+          onCancel={documentAnalysis.cancel}
+          onCitation={(pageNumber) => pdfLayerRef.current?.scrollToPage(pageNumber)}
+        />
+      )}
+
+      <TranscriptPanel
+        messages={conversationHistory}
+        isOpen={showTranscript}
+        onToggle={() => setShowTranscript(open => !open)}
+        onReask={handleSendMessage}
+        streamingText={streamingText}
+        isProcessing={isProcessing}
+      />
+
       {/* Settings button */}
       <button
         onClick={() => setShowSettings(true)}
@@ -221,13 +809,25 @@ function App() {
         ⚙️ Settings
       </button>
 
+      {showExport && (
+        <ExportDialog
+          onClose={() => setShowExport(false)}
+          onExport={handleExportBoard}
+          hasConversation={conversationHistory.length > 0}
+        />
+      )}
+
       {/* Settings modal - shows on first visit or when user clicks settings */}
-      <SettingsModal
-        isOpen={showSettings || !apiConfigured}
-        onClose={() => setShowSettings(false)}
-        onSave={() => setApiConfigured(true)}
-        canClose={apiConfigured}
-      />
+      {(showSettings || !apiConfigured) && (
+        <SettingsModal
+          onClose={() => setShowSettings(false)}
+          onSave={() => {
+            setApiConfigured(true);
+            setVoiceConfigured(isVoiceInputConfigured());
+          }}
+          canClose={apiConfigured}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { deleteBoard, duplicateBoard, listBoards, renameBoard, type BoardSummary } from '../../services/storage';
+import styles from './BoardList.module.css';
+
+interface BoardListProps {
+    activeBoardId: string | null;
+    activeBoardName: string;
+    onOpen: (id: string) => void;
+    onCreate: () => void;
+    onRenamed: (id: string, name: string) => void;
+    onDeleted: (id: string) => void;
+    // Writes the open board's unsaved edits, so a copy of it includes them
+    onFlush: () => Promise<void>;
+}
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Board switcher: the current board's name, opening a list to create, rename, duplicate and delete boards
+const BoardList: React.FC<BoardListProps> = ({
+    activeBoardId,
+    activeBoardName,
+    onOpen,
+    onCreate,
+    onRenamed,
+    onDeleted,
+    onFlush
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [boards, setBoards] = useState<BoardSummary[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const refresh = async () => {
+        try {
+            setBoards(await listBoards());
+        } catch (err) {
+            console.error('Could not list boards:', err);
+        }
+    };
+
+    const handleToggle = () => {
+        if (!isOpen) {
+            refresh();
+        }
+        setIsOpen(!isOpen);
+        setEditingId(null);
+    };
+
+    const handleOpen = (id: string) => {
+        setIsOpen(false);
+        if (id !== activeBoardId) {
+            onOpen(id);
+        }
+    };
+
+    const handleCreate = () => {
+        setIsOpen(false);
+        onCreate();
+    };
+
+    const startRename = (board: BoardSummary) => {
+        setEditingId(board.id);
+        setDraftName(board.name);
+    };
+
+    const commitRename = async () => {
+        const id = editingId;
+        const name = draftName.trim();
+        setEditingId(null);
+        if (!id || !name) return;
+
+        try {
+            await renameBoard(id, name);
+            onRenamed(id, name);
+        } catch (err) {
+            console.error('Could not rename board:', err);
+        }
+        await refresh();
+    };
+
+    const handleDuplicate = async (id: string) => {
+        try {
+            if (id === activeBoardId) {
+                await onFlush();
+            }
+            await duplicateBoard(id);
+        } catch (err) {
+            console.error('Could not duplicate board:', err);
+        }
+        await refresh();
+    };
+
+    const handleDelete = async (board: BoardSummary) => {
+        if (!window.confirm(`Delete "${board.name}"? Its drawings, PDF and chat will be removed.`)) return;
+
+        try {
+            await deleteBoard(board.id);
+            onDeleted(board.id);
+        } catch (err) {
+            console.error('Could not delete board:', err);
+        }
+        await refresh();
+    };
+
+    return (
+        <div className={styles.container}>
+            <button className={styles.trigger} onClick={handleToggle} title="Boards">
+                <span className={styles.triggerIcon}>☰</span>
+                <span className={styles.triggerName}>{activeBoardName}</span>
+            </button>
+
+            {isOpen && (
+                <div className={styles.panel}>
+                    <button className={styles.newButton} onClick={handleCreate}>
+                        + New board
+                    </button>
+
+                    <ul className={styles.list}>
+                        {boards.map(board => (
+                            <li
+                                key={board.id}
+                                className={`${styles.item} ${board.id === activeBoardId ? styles.active : ''}`}
+                            >
+                                {editingId === board.id ? (
+                                    <input
+                                        className={styles.renameInput}
+                                        value={draftName}
+                                        autoFocus
+                                        onChange={e => setDraftName(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={e => {
+                                            if (e.key === 'Enter') e.currentTarget.blur();
+                                            if (e.key === 'Escape') setEditingId(null);
+                                        }}
+                                    />
+                                ) : (
+                                    <button className={styles.itemMain} onClick={() => handleOpen(board.id)}>
+                                        <span className={styles.itemName}>{board.name}</span>
+                                        <span className={styles.itemMeta}>
+                                            {board.documentName ? `📄 ${board.documentName} · ` : ''}
+                                            {formatDate(board.updatedAt)}
+                                        </span>
+                                    </button>
+                                )}
+
+                                <div className={styles.itemActions}>
+                                    <button onClick={() => startRename(board)} aria-label="Rename" title="Rename">✏️</button>
+                                    <button onClick={() => handleDuplicate(board.id)} aria-label="Duplicate" title="Duplicate">⧉</button>
+                                    <button onClick={() => handleDelete(board)} aria-label="Delete" title="Delete">🗑️</button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BoardList;
@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Markdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { citedPage, linkCitations, type AnalysisProgress, type DocumentAnalysis, type DocumentExchange } from '../../services/documentAnalysis';
+import transcriptStyles from './TranscriptPanel.module.css';
+import styles from './DocumentPanel.module.css';
+
+interface DocumentPanelProps {
+    isOpen: boolean;
+    onToggle: () => void;
+    pageCount: number;
+    analysis: DocumentAnalysis | null;
+    exchanges: DocumentExchange[];
+    progress: AnalysisProgress | null;
+    pendingQuestion: string | null;
+    streamingAnswer: string;
+    error: string | null;
+    isBusy: boolean;
+    onAnalyze: () => void;
+    onAsk: (question: string) => void;
+    onCancel: () => void;
+    onCitation: (pageNumber: number) => void;
+}
+
+// Where a running analysis is, as a label and a fraction of the whole job
+function describeProgress(progress: AnalysisProgress): { label: string; fraction: number } {
+    switch (progress.stage) {
+        case 'reading':
+            return { label: `Reading page ${Math.min(progress.done + 1, progress.total)} of ${progress.total}…`, fraction: 0.1 * progress.done / Math.max(1, progress.total) };
+        case 'summarizing':
+            return { label: `Summarizing part ${progress.done + 1} of ${progress.total}…`, fraction: 0.1 + 0.8 * progress.done / Math.max(1, progress.total) };
+        case 'combining':
+            return { label: 'Combining the summaries…', fraction: 0.95 };
+    }
+}
+
+// Markdown whose page citations are buttons that scroll to the page
+const CitedMarkdown: React.FC<{ text: string; onCitation: (pageNumber: number) => void }> = ({ text, onCitation }) => (
+    <div className={transcriptStyles.markdown}>
+        <Markdown
+            remarkPlugins={[remarkGfm]}
+            components={{
+                a: ({ href, children }) => {
+                    const pageNumber = citedPage(href);
+                    if (pageNumber === null) {
+                        return <a href={href} target="_blank" rel="noreferrer">{children}</a>;
+                    }
+                    return (
+                        <button className={styles.citation} onClick={() => onCitation(pageNumber)} title={`Go to page ${pageNumber}`}>
+                            {children}
+                        </button>
+                    );
+                }
+            }}
+        >
+            {linkCitations(text)}
+        </Markdown>
+    </div>
+);
+
+const DocumentPanel: React.FC<DocumentPanelProps> = ({
+    isOpen,
+    onToggle,
+    pageCount,
+    analysis,
+    exchanges,
+    progress,
+    pendingQuestion,
+    streamingAnswer,
+    error,
+    isBusy,
+    onAnalyze,
+    onAsk,
+    onCancel,
+    onCitation
+}) => {
+    const [question, setQuestion] = useState('');
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Keep the newest answer in view as it streams in
+    useEffect(() => {
+        const list = listRef.current;
+        if (list) {
+            list.scrollTop = list.scrollHeight;
+        }
+    }, [exchanges.length, streamingAnswer, pendingQuestion, isOpen]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!question.trim() || isBusy) return;
+        onAsk(question.trim());
+        setQuestion('');
+    };
+
+    if (!isOpen) {
+        return (
+            <button
+                className={styles.toggleButton}
+                onClick={onToggle}
+                aria-label="Show Document Analysis"
+                title="Summarize the whole document and ask questions about it"
+            >
+                📚
+            </button>
+        );
+    }
+
+    const status = progress ? describeProgress(progress) : null;
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <span className={styles.title}>Document ({pageCount} pages)</span>
+                <button
+                    className={transcriptStyles.iconButton}
+                    onClick={onToggle}
+                    aria-label="Hide Document Analysis"
+                    title="Hide Document Analysis"
+                >
+                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <polyline points="15 18 9 12 15 6"></polyline>
+                    </svg>
+                </button>
+            </div>
+
+            <div className={styles.body} ref={listRef}>
+                {!analysis && !isBusy && (
+                    <div className={styles.intro}>
+                        <p>Summarize the whole document, then ask questions about it. Answers cite the pages they draw on.</p>
+                        <button className={styles.primaryButton} onClick={onAnalyze}>
+                            Analyze document
+                        </button>
+                    </div>
+                )}
+
+                {status && (
+                    <div className={styles.progress} role="status">
+                        <div className={styles.progressLabel}>
+                            <span>{status.label}</span>
+                            <button className={styles.cancelButton} onClick={onCancel}>Cancel</button>
+                        </div>
+                        <div className={styles.progressTrack}>
+                            <div className={styles.progressBar} style={{ width: `${Math.round(status.fraction * 100)}%` }} />
+                        </div>
+                    </div>
+                )}
+
+                {error && <div className={styles.error}>{error}</div>}
+
+                {analysis && (
+                    <div className={styles.summary}>
+                        <div className={styles.sectionTitle}>
+                            <span>Summary</span>
+                            <button className={styles.linkButton} onClick={onAnalyze} disabled={isBusy}>Redo</button>
+                        </div>
+                        <CitedMarkdown text={analysis.summary} onCitation={onCitation} />
+                    </div>
+                )}
+
+                {exchanges.map((exchange, index) => (
+                    <React.Fragment key={index}>
+                        <div className={`${transcriptStyles.message} ${transcriptStyles.user}`}>{exchange.question}</div>
+                        <div className={`${transcriptStyles.message} ${transcriptStyles.assistant}`}>
+                            <CitedMarkdown text={exchange.answer} onCitation={onCitation} />
+                        </div>
+                    </React.Fragment>
+                ))}
+
+                {pendingQuestion && (
+                    <>
+                        <div className={`${transcriptStyles.message} ${transcriptStyles.user}`}>{pendingQuestion}</div>
+                        {streamingAnswer && (
+                            <div className={`${transcriptStyles.message} ${transcriptStyles.assistant} ${transcriptStyles.streaming}`}>
+                                <CitedMarkdown text={streamingAnswer} onCitation={onCitation} />
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+
+            <form className={styles.askForm} onSubmit={handleSubmit}>
+                <input
+                    type="text"
+                    className={styles.askInput}
+                    placeholder="Ask about the whole document..."
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    disabled={isBusy}
+                />
+                {isBusy && pendingQuestion ? (
+                    <button type="button" className={styles.cancelButton} onClick={onCancel}>Stop</button>
+                ) : (
+                    <button type="submit" className={styles.primaryButton} disabled={!question.trim() || isBusy}>Ask</button>
+                )}
+            </form>
+        </div>
+    );
+};
+
+export default DocumentPanel;
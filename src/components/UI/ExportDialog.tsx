@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import type { ExportFormat, ExportOptions } from '../../utils/boardExport';
+import styles from './ExportDialog.module.css';
+
+interface ExportDialogProps {
+    onClose: () => void;
+    onExport: (options: ExportOptions) => Promise<void>;
+    hasConversation: boolean;
+}
+
+const FORMATS: Array<{ value: ExportFormat; label: string; hint: string }> = [
+    { value: 'png', label: 'PNG', hint: 'An image at twice the on-screen resolution.' },
+    { value: 'svg', label: 'SVG', hint: 'Vector graphics built from the strokes, shapes and notes; scales without blurring.' },
+    { value: 'pdf', label: 'PDF', hint: 'A vector page sized to the drawing, optionally followed by the conversation.' }
+];
+
+// A PDF's page is white, where the default white ink disappears, so PDFs start with the background filled
+const fillsBackgroundByDefault = (format: ExportFormat) => format === 'pdf';
+
+// Mounted only while open, like the settings
+export default function ExportDialog({ onClose, onExport, hasConversation }: ExportDialogProps) {
+    const [format, setFormat] = useState<ExportFormat>('png');
+    const [fillBackground, setFillBackground] = useState(false);
+    const [cropToContent, setCropToContent] = useState(true);
+    const [includeConversation, setIncludeConversation] = useState(hasConversation);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError('');
+        try {
+            await onExport({ format, fillBackground, cropToContent, includeConversation: format === 'pdf' && includeConversation });
+            onClose();
+        } catch (err) {
+            console.error('Export failed:', err);
+            setError(err instanceof Error ? err.message : 'Export failed.');
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className={styles.overlay} onClick={onClose}>
+            <div className={styles.modal} onClick={e => e.stopPropagation()}>
+                <h2 className={styles.title}>Export Board</h2>
+
+                {error && <div className={styles.error}>{error}</div>}
+
+                <div className={styles.form}>
+                    <div className={styles.fieldGroup}>
+                        <label className={styles.label}>Format</label>
+                        <div className={styles.options}>
+                            {FORMATS.map(({ value, label }) => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    className={`${styles.option} ${format === value ? styles.optionActive : ''}`}
+                                    onClick={() => {
+                                        setFormat(value);
+                                        setFillBackground(fillsBackgroundByDefault(value));
+                                    }}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className={styles.hint}>{FORMATS.find(f => f.value === format)?.hint}</p>
+                    </div>
+
+                    <label className={styles.checkbox}>
+                        <input type="checkbox" checked={cropToContent} onChange={e => setCropToContent(e.target.checked)} />
+                        Crop to content
+                        <span className={styles.hint}>Otherwise exports the part of the board on screen</span>
+                    </label>
+
+                    <label className={styles.checkbox}>
+                        <input type="checkbox" checked={fillBackground} onChange={e => setFillBackground(e.target.checked)} />
+                        Fill background
+                        <span className={styles.hint}>Keeps white ink visible; otherwise the background is transparent</span>
+                    </label>
+
+                    <label className={`${styles.checkbox} ${format !== 'pdf' || !hasConversation ? styles.disabled : ''}`}>
+                        <input
+                            type="checkbox"
+                            checked={format === 'pdf' && includeConversation}
+                            disabled={format !== 'pdf' || !hasConversation}
+                            onChange={e => setIncludeConversation(e.target.checked)}
+                        />
+                        Add the conversation as an appendix
+                        <span className={styles.hint}>
+                            {hasConversation ? 'PDF only' : 'No conversation on this board yet'}
+                        </span>
+                    </label>
+
+                    <div className={styles.buttons}>
+                        <button className={styles.cancelButton} onClick={onClose}>
+                            Cancel
+                        </button>
+                        <button className={styles.exportButton} onClick={handleExport} disabled={isExporting}>
+                            {isExporting ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,12 +1,27 @@
 import React, { useState } from 'react';
+import { useAudioRecorder } from '../../hooks/useAudioRecorder';
 import styles from './FloatingBar.module.css';
 
+export interface CaptureOption {
+    value: string;
+    label: string;
+}
+
 interface FloatingBarProps {
     onSendMessage: (text: string) => void;
     onCapture: () => void;
     onStop: () => void;
     onClearContext: () => void;
+    onVoiceInput?: (audio: Blob) => void;
+    voiceEnabled?: boolean;
+    captureOptions?: CaptureOption[];
+    captureOption?: string;
+    onCaptureOptionChange?: (value: string) => void;
+    // Whether the AI may answer with a drawing on the board, when the current mode allows one
+    drawingEnabled?: boolean;
+    onDrawingEnabledChange?: (enabled: boolean) => void;
     isProcessing?: boolean;
+    responseText?: string;
     hasContext?: boolean;
 }
 
@@ -15,10 +30,19 @@ const FloatingBar: React.FC<FloatingBarProps> = ({
     onCapture,
     onStop,
     onClearContext,
+    onVoiceInput,
+    voiceEnabled = false,
+    captureOptions,
+    captureOption,
+    onCaptureOptionChange,
+    drawingEnabled = false,
+    onDrawingEnabledChange,
     isProcessing = false,
+    responseText = '',
     hasContext = false
 }) => {
     const [inputText, setInputText] = useState('');
+    const { isRecording, startRecording, stopRecording } = useAudioRecorder();
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && inputText.trim()) {
@@ -27,18 +51,59 @@ const FloatingBar: React.FC<FloatingBarProps> = ({
         }
     };
 
+    const handleMicClick = async () => {
+        if (!isRecording) {
+            await startRecording();
+            return;
+        }
+
+        try {
+            const audio = await stopRecording();
+            if (audio.size > 0) {
+                onVoiceInput?.(audio);
+            }
+        } catch (error) {
+            console.error("Error stopping recording:", error);
+        }
+    };
+
     return (
         <div className={styles.container}>
-            <div className={styles.inputGroup}>
+            {/* Reply preview - fills in while the answer streams */}
+            {responseText && (
+                <div className={styles.response} aria-live="polite">
+                    {responseText}
+                </div>
+            )}
+
+            <div className={`${styles.inputGroup} ${isRecording ? styles.recording : ''}`}>
                 <input
                     type="text"
                     className={styles.input}
-                    placeholder="Ask AI anything..."
+                    placeholder={isRecording ? "Listening... click the mic to send" : "Ask AI anything..."}
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
                     onKeyDown={handleKeyDown}
-                    disabled={isProcessing}
+                    disabled={isProcessing || isRecording}
                 />
+
+                {/* Mic button - records a question and sends its transcript */}
+                {onVoiceInput && (
+                    <button
+                        className={`${styles.iconButton} ${isRecording ? styles.recordingIcon : ''}`}
+                        onClick={handleMicClick}
+                        aria-label={isRecording ? "Stop Recording and Send" : "Voice Input"}
+                        title={voiceEnabled ? (isRecording ? "Stop and send" : "Ask by voice") : "Add a transcription model in Settings to use voice input"}
+                        disabled={!voiceEnabled || (isProcessing && !isRecording)}
+                    >
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"></path>
+                            <path d="M19 10v2a7 7 0 0 1-14 0v-2"></path>
+                            <line x1="12" y1="19" x2="12" y2="23"></line>
+                            <line x1="8" y1="23" x2="16" y2="23"></line>
+                        </svg>
+                    </button>
+                )}
             </div>
 
             {/* Stop button - visible when processing */}
@@ -71,6 +136,40 @@ const FloatingBar: React.FC<FloatingBarProps> = ({
                 </button>
             )}
 
+            {/* Let the AI draw - replies may add shapes, arrows, labels and notes to the board */}
+            {onDrawingEnabledChange && (
+                <button
+                    className={`${styles.drawToggle} ${drawingEnabled ? styles.drawToggleOn : ''}`}
+                    onClick={() => onDrawingEnabledChange(!drawingEnabled)}
+                    aria-label="Let AI Draw"
+                    aria-pressed={drawingEnabled}
+                    title={`Let the AI draw on the board: ${drawingEnabled ? 'on' : 'off'}`}
+                    disabled={isProcessing}
+                >
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M4 20l4-1 10-10-3-3L5 16l-1 4z"></path>
+                        <path d="M19 2v4"></path>
+                        <path d="M17 4h4"></path>
+                    </svg>
+                </button>
+            )}
+
+            {/* What the capture includes, when the current mode offers a choice */}
+            {captureOptions && captureOptions.length > 0 && (
+                <select
+                    className={styles.captureSelect}
+                    value={captureOption}
+                    onChange={(e) => onCaptureOptionChange?.(e.target.value)}
+                    disabled={isProcessing}
+                    aria-label="Capture Area"
+                    title="What to send with your question"
+                >
+                    {captureOptions.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            )}
+
             <button
                 className={`${styles.cameraButton} ${isProcessing ? styles.processing : ''}`}
                 onClick={onCapture}
@@ -0,0 +1,85 @@
+import React from 'react';
+import styles from './PagePicker.module.css';
+
+// Which pages of a PDF a question sends
+export type PageScope = 'current' | 'range' | 'annotated';
+
+export interface PageRange {
+    from: number;
+    to: number;
+}
+
+interface PagePickerProps {
+    currentPage: number;
+    pageCount: number;
+    scope: PageScope;
+    onScopeChange: (scope: PageScope) => void;
+    range: PageRange;
+    onRangeChange: (range: PageRange) => void;
+    annotatedCount: number;
+    disabled?: boolean;
+}
+
+const PagePicker: React.FC<PagePickerProps> = ({
+    currentPage,
+    pageCount,
+    scope,
+    onScopeChange,
+    range,
+    onRangeChange,
+    annotatedCount,
+    disabled = false
+}) => {
+    const clampPage = (value: number) => Math.min(pageCount, Math.max(1, Math.round(value) || 1));
+
+    return (
+        <div className={styles.container}>
+            <span className={styles.current} aria-live="polite">
+                Page {currentPage} / {pageCount}
+            </span>
+
+            <select
+                className={styles.select}
+                value={scope}
+                onChange={(e) => onScopeChange(e.target.value as PageScope)}
+                disabled={disabled}
+                aria-label="Pages to Send"
+                title="Which pages to send with your question"
+            >
+                <option value="current">This page</option>
+                <option value="range">Pages…</option>
+                <option value="annotated" disabled={annotatedCount === 0}>
+                    Annotated pages ({annotatedCount})
+                </option>
+            </select>
+
+            {scope === 'range' && (
+                <span className={styles.range}>
+                    <input
+                        type="number"
+                        className={styles.pageInput}
+                        min={1}
+                        max={pageCount}
+                        value={range.from}
+                        onChange={(e) => onRangeChange({ ...range, from: clampPage(e.target.valueAsNumber) })}
+                        disabled={disabled}
+                        aria-label="First Page"
+                    />
+                    –
+                    <input
+                        type="number"
+                        className={styles.pageInput}
+                        min={1}
+                        max={pageCount}
+                        value={range.to}
+                        onChange={(e) => onRangeChange({ ...range, to: clampPage(e.target.valueAsNumber) })}
+                        disabled={disabled}
+                        aria-label="Last Page"
+                    />
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default PagePicker;
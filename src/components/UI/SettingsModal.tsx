@@ -1,59 +1,65 @@
-import { useState, useEffect } from 'react';
-import { getConfig, saveConfig, testConnection, type AzureConfig } from '../../services/azure';
+import { useState } from 'react';
+import { getConfig, saveConfig, hasRequiredFields, PROVIDER_IDS, PROVIDER_INFO, type AIConfig, type ProviderId } from '../../services/config';
+import { createProvider } from '../../services/providers';
 import styles from './SettingsModal.module.css';
 
 interface SettingsModalProps {
-    isOpen: boolean;
     onClose: () => void;
     onSave: () => void;
     canClose?: boolean;
 }
 
-export default function SettingsModal({ isOpen, onClose, onSave, canClose = true }: SettingsModalProps) {
-    const [endpoint, setEndpoint] = useState('');
-    const [apiKey, setApiKey] = useState('');
-    const [deploymentName, setDeploymentName] = useState('');
-    const [speechKey, setSpeechKey] = useState('');
-    const [speechRegion, setSpeechRegion] = useState('');
+// Mounted only while open, so the form is seeded from storage on every open
+export default function SettingsModal({ onClose, onSave, canClose = true }: SettingsModalProps) {
+    const [initialConfig] = useState(() => getConfig());
+    const [provider, setProvider] = useState<ProviderId>(initialConfig?.provider ?? 'azure');
+    const [endpoint, setEndpoint] = useState(initialConfig?.endpoint ?? '');
+    const [apiKey, setApiKey] = useState(initialConfig?.apiKey ?? '');
+    const [model, setModel] = useState(initialConfig?.model ?? '');
+    const [speechKey, setSpeechKey] = useState(initialConfig?.speechKey ?? '');
+    const [speechRegion, setSpeechRegion] = useState(initialConfig?.speechRegion ?? '');
+    const [transcriptionModel, setTranscriptionModel] = useState(initialConfig?.transcriptionModel ?? '');
+    const [transcriptionEndpoint, setTranscriptionEndpoint] = useState(initialConfig?.transcriptionEndpoint ?? '');
     const [error, setError] = useState('');
     const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
     const [testMessage, setTestMessage] = useState('');
 
-    useEffect(() => {
-        if (isOpen) {
-            const config = getConfig();
-            if (config) {
-                setEndpoint(config.endpoint || '');
-                setApiKey(config.apiKey || '');
-                setDeploymentName(config.deploymentName || '');
-                setSpeechKey(config.speechKey || '');
-                setSpeechRegion(config.speechRegion || '');
-            }
-        }
-    }, [isOpen]);
+    const info = PROVIDER_INFO[provider];
+
+    const buildConfig = (): AIConfig => ({
+        provider,
+        endpoint: endpoint.trim(),
+        apiKey: apiKey.trim(),
+        model: model.trim(),
+        speechKey: speechKey.trim() || undefined,
+        speechRegion: speechRegion.trim() || undefined,
+        transcriptionModel: transcriptionModel.trim() || undefined,
+        transcriptionEndpoint: transcriptionEndpoint.trim() || undefined,
+    });
+
+    const canSubmit = hasRequiredFields({ provider, endpoint, apiKey, model });
+
+    const handleProviderChange = (next: ProviderId) => {
+        setProvider(next);
+        setTestStatus('idle');
+        setTestMessage('');
+        setError('');
+    };
 
     const handleSave = () => {
-        if (!endpoint || !apiKey || !deploymentName) {
+        if (!canSubmit) {
             setError('Please fill in all required fields.');
             return;
         }
 
-        const config: AzureConfig = {
-            endpoint: endpoint.trim(),
-            apiKey: apiKey.trim(),
-            deploymentName: deploymentName.trim(),
-            speechKey: speechKey.trim() || undefined,
-            speechRegion: speechRegion.trim() || undefined,
-        };
-
-        saveConfig(config);
+        saveConfig(buildConfig());
         setError('');
         onSave();
         onClose();
     };
 
     const handleTestConnection = async () => {
-        if (!endpoint || !apiKey || !deploymentName) {
+        if (!canSubmit) {
             setError('Please fill in all required fields.');
             return;
         }
@@ -62,11 +68,7 @@ export default function SettingsModal({ isOpen, onClose, onSave, canClose = true
         setTestMessage('');
         setError('');
 
-        const result = await testConnection({
-            endpoint: endpoint.trim(),
-            apiKey: apiKey.trim(),
-            deploymentName: deploymentName.trim()
-        });
+        const result = await createProvider(buildConfig()).testConnection();
 
         if (result.success) {
             setTestStatus('success');
@@ -77,19 +79,34 @@ export default function SettingsModal({ isOpen, onClose, onSave, canClose = true
         }
     };
 
-    if (!isOpen) return null;
-
     return (
         <div className={styles.overlay} onClick={canClose ? onClose : undefined}>
             <div className={styles.modal} onClick={e => e.stopPropagation()}>
-                <h2 className={styles.title}>Azure OpenAI Settings</h2>
+                <h2 className={styles.title}>AI Settings</h2>
                 <p className={styles.subtitle}>
-                    Enter your Azure OpenAI credentials to use this app. Your keys are stored locally in your browser.
+                    Choose an AI provider and enter its credentials. Your keys are stored locally in your browser.
                 </p>
 
                 {error && <div className={styles.error}>{error}</div>}
 
                 <div className={styles.form}>
+                    <div className={styles.fieldGroup}>
+                        <label className={styles.label}>Provider</label>
+                        <div className={styles.providerOptions}>
+                            {PROVIDER_IDS.map(id => (
+                                <button
+                                    key={id}
+                                    type="button"
+                                    className={`${styles.providerOption} ${provider === id ? styles.providerActive : ''}`}
+                                    onClick={() => handleProviderChange(id)}
+                                >
+                                    {PROVIDER_INFO[id].label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className={styles.hint}>{info.description}</p>
+                    </div>
+
                     <div className={styles.fieldGroup}>
                         <label className={styles.label}>
                             Endpoint <span className={styles.required}>*</span>
@@ -97,7 +114,7 @@ export default function SettingsModal({ isOpen, onClose, onSave, canClose = true
                         <input
                             type="text"
                             className={styles.input}
-                            placeholder="https://your-resource.openai.azure.com"
+                            placeholder={info.endpointPlaceholder}
                             value={endpoint}
                             onChange={e => setEndpoint(e.target.value)}
                         />
@@ -105,7 +122,9 @@ export default function SettingsModal({ isOpen, onClose, onSave, canClose = true
 
                     <div className={styles.fieldGroup}>
                         <label className={styles.label}>
-                            API Key <span className={styles.required}>*</span>
+                            API Key {info.requiresApiKey
+                                ? <span className={styles.required}>*</span>
+                                : <span className={styles.optional}>(optional)</span>}
                         </label>
                         <input
                             type="password"
@@ -118,19 +137,19 @@ export default function SettingsModal({ isOpen, onClose, onSave, canClose = true
 
                     <div className={styles.fieldGroup}>
                         <label className={styles.label}>
-                            Deployment Name <span className={styles.required}>*</span>
+                            {info.modelLabel} <span className={styles.required}>*</span>
                         </label>
                         <input
                             type="text"
                             className={styles.input}
-                            placeholder="gpt-4o"
-                            value={deploymentName}
-                            onChange={e => setDeploymentName(e.target.value)}
+                            placeholder={info.modelPlaceholder}
+                            value={model}
+                            onChange={e => setModel(e.target.value)}
                         />
                     </div>
 
                     <hr className={styles.divider} />
-                    <p className={styles.sectionLabel}>Speech (Optional)</p>
+                    <p className={styles.sectionLabel}>Azure Speech (Optional)</p>
 
                     <div className={styles.fieldGroup}>
                         <label className={styles.label}>
@@ -158,11 +177,41 @@ export default function SettingsModal({ isOpen, onClose, onSave, canClose = true
                         />
                     </div>
 
+                    <hr className={styles.divider} />
+                    <p className={styles.sectionLabel}>Voice Input (Optional)</p>
+
+                    <div className={styles.fieldGroup}>
+                        <label className={styles.label}>
+                            Transcription {provider === 'azure' ? 'Deployment' : 'Model'} <span className={styles.optional}>(optional)</span>
+                        </label>
+                        <input
+                            type="text"
+                            className={styles.input}
+                            placeholder={provider === 'azure' ? 'whisper' : 'whisper-1'}
+                            value={transcriptionModel}
+                            onChange={e => setTranscriptionModel(e.target.value)}
+                        />
+                    </div>
+
+                    <div className={styles.fieldGroup}>
+                        <label className={styles.label}>
+                            Transcription Endpoint <span className={styles.optional}>(optional)</span>
+                        </label>
+                        <input
+                            type="text"
+                            className={styles.input}
+                            placeholder="Leave empty to use the provider above, or e.g. http://localhost:8000/v1"
+                            value={transcriptionEndpoint}
+                            onChange={e => setTranscriptionEndpoint(e.target.value)}
+                        />
+                        <p className={styles.hint}>A local Whisper server with an OpenAI-compatible /audio/transcriptions route.</p>
+                    </div>
+
                     <div className={styles.buttons}>
                         <button
                             className={styles.testButton}
                             onClick={handleTestConnection}
-                            disabled={!endpoint || !apiKey || !deploymentName || testStatus === 'testing'}
+                            disabled={!canSubmit || testStatus === 'testing'}
                         >
                             {testStatus === 'testing' ? '⏳ Testing...' : '🔌 Test Connection'}
                         </button>
@@ -174,7 +223,7 @@ export default function SettingsModal({ isOpen, onClose, onSave, canClose = true
                         <button
                             className={styles.saveButton}
                             onClick={handleSave}
-                            disabled={!endpoint || !apiKey || !deploymentName}
+                            disabled={!canSubmit}
                         >
                             Save Settings
                         </button>
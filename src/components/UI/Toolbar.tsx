@@ -1,24 +1,75 @@
 import React from 'react';
+import { isEraserTool, isMarkupTool, isTextSelectionTool, MARKUP_COLORS, NOTE_COLORS, type ShapeKind, type Tool } from '../../types/annotationTypes';
 import styles from './Toolbar.module.css';
 
+const SHAPE_TOOLS: Array<{ kind: ShapeKind; label: string; icon: React.ReactNode }> = [
+    { kind: 'rectangle', label: 'Rectangle', icon: <rect x="3" y="5" width="18" height="14" rx="1"></rect> },
+    { kind: 'ellipse', label: 'Ellipse', icon: <ellipse cx="12" cy="12" rx="9" ry="7"></ellipse> },
+    { kind: 'triangle', label: 'Triangle', icon: <polygon points="12 4 21 19 3 19"></polygon> },
+    { kind: 'line', label: 'Line', icon: <line x1="5" y1="19" x2="19" y2="5"></line> },
+    {
+        kind: 'arrow',
+        label: 'Arrow',
+        icon: (
+            <>
+                <line x1="5" y1="19" x2="19" y2="5"></line>
+                <polyline points="10 5 19 5 19 14"></polyline>
+            </>
+        )
+    },
+];
+
 interface ToolbarProps {
-    currentTool: 'pen' | 'eraser';
-    onToolChange: (tool: 'pen' | 'eraser') => void;
+    currentTool: Tool;
+    onToolChange: (tool: Tool) => void;
     onClear: () => void;
+    clearLabel?: string;
+    onUndo: () => void;
+    onRedo: () => void;
+    canUndo?: boolean;
+    canRedo?: boolean;
     penColor?: 'white' | 'black';
     onPenColorChange?: (color: 'white' | 'black') => void;
+    noteColor?: string;
+    onNoteColorChange?: (color: string) => void;
+    // Select, highlight and underline work on a PDF's text, so they only show with one open
+    showTextTools?: boolean;
+    markupColor?: string;
+    onMarkupColorChange?: (color: string) => void;
+    snapToShape?: boolean;
+    onSnapToShapeChange?: (enabled: boolean) => void;
+    penOnly?: boolean;
+    onPenOnlyChange?: (enabled: boolean) => void;
     showSave?: boolean;
     onSave?: () => void;
+    saveLabel?: string;
+    onZoomToFit?: () => void;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
     currentTool,
     onToolChange,
     onClear,
+    clearLabel = 'Clear All',
+    onUndo,
+    onRedo,
+    canUndo = false,
+    canRedo = false,
     penColor = 'white',
     onPenColorChange,
+    noteColor = NOTE_COLORS[0].value,
+    onNoteColorChange,
+    showTextTools = false,
+    markupColor = MARKUP_COLORS[0].value,
+    onMarkupColorChange,
+    snapToShape = false,
+    onSnapToShapeChange,
+    penOnly = false,
+    onPenOnlyChange,
     showSave = false,
-    onSave
+    onSave,
+    saveLabel = 'Save PDF',
+    onZoomToFit
 }) => {
     return (
         <div className={styles.container}>
@@ -35,8 +86,145 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 </svg>
             </button>
 
-            {/* Color picker - only show when pen is selected */}
-            {currentTool === 'pen' && onPenColorChange && (
+            {/* Shape tools - hold Shift while dragging for squares, circles and 45° lines */}
+            {SHAPE_TOOLS.map(({ kind, label, icon }) => (
+                <button
+                    key={kind}
+                    className={`${styles.tool} ${currentTool === kind ? styles.active : ''}`}
+                    onClick={() => onToolChange(kind)}
+                    aria-label={label}
+                    title={`${label} (Shift to constrain)`}
+                >
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        {icon}
+                    </svg>
+                </button>
+            ))}
+
+            {/* Snap to shape - turns pen strokes that look like shapes into clean ones */}
+            {onSnapToShapeChange && (
+                <button
+                    className={`${styles.tool} ${snapToShape ? styles.active : ''}`}
+                    onClick={() => onSnapToShapeChange(!snapToShape)}
+                    aria-label="Snap to Shape"
+                    aria-pressed={snapToShape}
+                    title={`Snap to shape: ${snapToShape ? 'on' : 'off'} (undo to keep the ink)`}
+                >
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M3 17c2-4 4 2 6-2s3-6 5-3"></path>
+                        <rect x="14" y="3" width="7" height="7" rx="1"></rect>
+                        <path d="M15 21l6-6"></path>
+                    </svg>
+                </button>
+            )}
+
+            {/* Pen only - palm rejection for tablets: fingers pan and zoom, only a stylus draws */}
+            {onPenOnlyChange && (
+                <button
+                    className={`${styles.tool} ${penOnly ? styles.active : ''}`}
+                    onClick={() => onPenOnlyChange(!penOnly)}
+                    aria-label="Pen Only"
+                    aria-pressed={penOnly}
+                    title={`Pen only: ${penOnly ? 'on' : 'off'} (touch pans and zooms, only a stylus draws)`}
+                >
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M18 11V6a2 2 0 0 0-4 0v5"></path>
+                        <path d="M14 10V4a2 2 0 0 0-4 0v6"></path>
+                        <path d="M10 10.5V6a2 2 0 0 0-4 0v8a8 8 0 0 0 16 0v-2a2 2 0 0 0-4 0"></path>
+                        <line x1="3" y1="3" x2="21" y2="21"></line>
+                    </svg>
+                </button>
+            )}
+
+            {/* Text box and sticky note - click to place, drag to move, double-click to edit */}
+            <button
+                className={`${styles.tool} ${currentTool === 'text' ? styles.active : ''}`}
+                onClick={() => onToolChange('text')}
+                aria-label="Text"
+                title="Text (click to place, double-click to edit)"
+            >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="4 7 4 4 20 4 20 7"></polyline>
+                    <line x1="9" y1="20" x2="15" y2="20"></line>
+                    <line x1="12" y1="4" x2="12" y2="20"></line>
+                </svg>
+            </button>
+            <button
+                className={`${styles.tool} ${currentTool === 'note' ? styles.active : ''}`}
+                onClick={() => onToolChange('note')}
+                aria-label="Sticky Note"
+                title="Sticky note (click to place, double-click to edit)"
+            >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M15 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2v10z"></path>
+                    <polyline points="15 21 15 15 21 15"></polyline>
+                </svg>
+            </button>
+
+            {/* Note colors - only show for the sticky note tool */}
+            {currentTool === 'note' && onNoteColorChange && NOTE_COLORS.map(({ name, value }) => (
+                <button
+                    key={value}
+                    className={`${styles.colorTool} ${noteColor === value ? styles.active : ''}`}
+                    onClick={() => onNoteColorChange(value)}
+                    aria-label={`${name[0].toUpperCase()}${name.slice(1)} Note`}
+                    style={{ backgroundColor: value, border: '2px solid #666' }}
+                />
+            ))}
+
+            {/* Text tools - select text to ask the AI about it, or mark it as you select */}
+            {showTextTools && (
+                <>
+                    <button
+                        className={`${styles.tool} ${currentTool === 'select' ? styles.active : ''}`}
+                        onClick={() => onToolChange('select')}
+                        aria-label="Select Text"
+                        title="Select text (then ask the AI, highlight, underline or copy)"
+                    >
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M9 4h6"></path>
+                            <path d="M9 20h6"></path>
+                            <line x1="12" y1="4" x2="12" y2="20"></line>
+                        </svg>
+                    </button>
+                    <button
+                        className={`${styles.tool} ${currentTool === 'highlight' ? styles.active : ''}`}
+                        onClick={() => onToolChange('highlight')}
+                        aria-label="Highlight"
+                        title="Highlight (select text to mark it)"
+                    >
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M9 11l-6 6v3h9l3-3"></path>
+                            <path d="M22 12l-4.6 4.6a2 2 0 0 1-2.8 0l-5.2-5.2a2 2 0 0 1 0-2.8L14 4"></path>
+                        </svg>
+                    </button>
+                    <button
+                        className={`${styles.tool} ${currentTool === 'underline' ? styles.active : ''}`}
+                        onClick={() => onToolChange('underline')}
+                        aria-label="Underline"
+                        title="Underline (select text to mark it)"
+                    >
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M6 3v7a6 6 0 0 0 12 0V3"></path>
+                            <line x1="4" y1="21" x2="20" y2="21"></line>
+                        </svg>
+                    </button>
+                </>
+            )}
+
+            {/* Marker colors - only show for highlight and underline */}
+            {isMarkupTool(currentTool) && onMarkupColorChange && MARKUP_COLORS.map(({ name, value }) => (
+                <button
+                    key={value}
+                    className={`${styles.colorTool} ${markupColor === value ? styles.active : ''}`}
+                    onClick={() => onMarkupColorChange(value)}
+                    aria-label={`${name[0].toUpperCase()}${name.slice(1)} Marker`}
+                    style={{ backgroundColor: value, border: '2px solid #666' }}
+                />
+            ))}
+
+            {/* Color picker - only show for tools that draw */}
+            {!isEraserTool(currentTool) && !isTextSelectionTool(currentTool) && currentTool !== 'note' && onPenColorChange && (
                 <>
                     <button
                         className={`${styles.colorTool} ${penColor === 'white' ? styles.active : ''}`}
@@ -57,17 +245,55 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 className={`${styles.tool} ${currentTool === 'eraser' ? styles.active : ''}`}
                 onClick={() => onToolChange('eraser')}
                 aria-label="Eraser"
+                title="Eraser (erases just the ink it touches)"
             >
                 <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                     <path d="M20 20H7L3 16C2 15 2 13 3 12L13 2L22 11L20 20Z"></path>
                     <path d="M17 17L7 7"></path>
                 </svg>
             </button>
+            <button
+                className={`${styles.tool} ${currentTool === 'object-eraser' ? styles.active : ''}`}
+                onClick={() => onToolChange('object-eraser')}
+                aria-label="Object Eraser"
+                title="Object eraser (deletes whole strokes, shapes and notes)"
+            >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M20 20H7L3 16C2 15 2 13 3 12L13 2L22 11L20 20Z"></path>
+                    <line x1="9" y1="9" x2="15" y2="15"></line>
+                    <line x1="15" y1="9" x2="9" y2="15"></line>
+                </svg>
+            </button>
             <div className={styles.divider} />
+            <button
+                className={styles.tool}
+                onClick={onUndo}
+                disabled={!canUndo}
+                aria-label="Undo"
+                title="Undo (Ctrl/Cmd+Z)"
+            >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="9 14 4 9 9 4"></polyline>
+                    <path d="M20 20v-7a4 4 0 0 0-4-4H4"></path>
+                </svg>
+            </button>
+            <button
+                className={styles.tool}
+                onClick={onRedo}
+                disabled={!canRedo}
+                aria-label="Redo"
+                title="Redo (Shift+Ctrl/Cmd+Z)"
+            >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <polyline points="15 14 20 9 15 4"></polyline>
+                    <path d="M4 20v-7a4 4 0 0 1 4-4h12"></path>
+                </svg>
+            </button>
             <button
                 className={styles.tool}
                 onClick={onClear}
-                aria-label="Clear All"
+                aria-label={clearLabel}
+                title={clearLabel}
             >
                 <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                     <polyline points="3 6 5 6 21 6"></polyline>
@@ -75,14 +301,32 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 </svg>
             </button>
 
-            {/* Save button - only show in PDF mode with file loaded */}
+            {/* Zoom to fit - only for the infinite whiteboard */}
+            {onZoomToFit && (
+                <button
+                    className={styles.tool}
+                    onClick={onZoomToFit}
+                    aria-label="Zoom to Fit"
+                    title="Zoom to fit (space+drag to pan, wheel or pinch to zoom)"
+                >
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M8 3H5a2 2 0 0 0-2 2v3"></path>
+                        <path d="M21 8V5a2 2 0 0 0-2-2h-3"></path>
+                        <path d="M3 16v3a2 2 0 0 0 2 2h3"></path>
+                        <path d="M16 21h3a2 2 0 0 0 2-2v-3"></path>
+                    </svg>
+                </button>
+            )}
+
+            {/* Save button - exports the board, or the annotated PDF once one is loaded */}
             {showSave && onSave && (
                 <>
                     <div className={styles.divider} />
                     <button
                         className={styles.tool}
                         onClick={onSave}
-                        aria-label="Save PDF"
+                        aria-label={saveLabel}
+                        title={saveLabel}
                     >
                         <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                             <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path>
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Markdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { getMessageImages, getMessageText, type ChatMessage } from '../../services/providers';
+import styles from './TranscriptPanel.module.css';
+
+interface TranscriptPanelProps {
+    messages: ChatMessage[];
+    isOpen: boolean;
+    onToggle: () => void;
+    onReask: (text: string) => void;
+    streamingText?: string;
+    isProcessing?: boolean;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+    messages,
+    isOpen,
+    onToggle,
+    onReask,
+    streamingText = '',
+    isProcessing = false
+}) => {
+    const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+    const [expandedImage, setExpandedImage] = useState<string | null>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Keep the newest turn in view as messages arrive and replies stream in
+    useEffect(() => {
+        const list = listRef.current;
+        if (list) {
+            list.scrollTop = list.scrollHeight;
+        }
+    }, [messages.length, streamingText, isOpen]);
+
+    const handleCopy = async (text: string, index: number) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopiedIndex(index);
+            setTimeout(() => setCopiedIndex(current => (current === index ? null : current)), 1500);
+        } catch (err) {
+            console.error('Copy failed:', err);
+        }
+    };
+
+    if (!isOpen) {
+        return (
+            <button
+                className={styles.toggleButton}
+                onClick={onToggle}
+                aria-label="Show Transcript"
+                title="Show Transcript"
+            >
+                💬 {messages.length > 0 ? Math.ceil(messages.length / 2) : ''}
+            </button>
+        );
+    }
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <span className={styles.title}>Transcript</span>
+                <button
+                    className={styles.iconButton}
+                    onClick={onToggle}
+                    aria-label="Hide Transcript"
+                    title="Hide Transcript"
+                >
+                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <polyline points="9 18 15 12 9 6"></polyline>
+                    </svg>
+                </button>
+            </div>
+
+            <div className={styles.messages} ref={listRef}>
+                {messages.length === 0 && !streamingText && (
+                    <p className={styles.empty}>Ask a question or capture the board to start a conversation.</p>
+                )}
+
+                {messages.map((message, index) => {
+                    const text = getMessageText(message);
+                    const images = getMessageImages(message);
+                    const isUser = message.role === 'user';
+
+                    return (
+                        <div
+                            key={index}
+                            className={`${styles.message} ${isUser ? styles.user : styles.assistant}`}
+                        >
+                            {images.length > 0 && (
+                                <div className={styles.thumbnails}>
+                                    {images.map((url, imageIndex) => (
+                                        <img
+                                            key={imageIndex}
+                                            src={url}
+                                            alt="Board capture sent with this message"
+                                            className={`${styles.thumbnail} ${expandedImage === url ? styles.expanded : ''}`}
+                                            onClick={() => setExpandedImage(expandedImage === url ? null : url)}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className={styles.markdown}>
+                                <Markdown remarkPlugins={[remarkGfm]}>{text}</Markdown>
+                            </div>
+
+                            <div className={styles.actions}>
+                                <button
+                                    className={styles.actionButton}
+                                    onClick={() => handleCopy(text, index)}
+                                >
+                                    {copiedIndex === index ? 'Copied' : 'Copy'}
+                                </button>
+                                {isUser && (
+                                    <button
+                                        className={styles.actionButton}
+                                        onClick={() => onReask(text)}
+                                        disabled={isProcessing}
+                                    >
+                                        Re-ask
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+
+                {/* Reply currently streaming in */}
+                {streamingText && (
+                    <div className={`${styles.message} ${styles.assistant} ${styles.streaming}`}>
+                        <div className={styles.markdown}>
+                            <Markdown remarkPlugins={[remarkGfm]}>{streamingText}</Markdown>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { ACTUAL_SIZE_SCALE, MAX_PDF_SCALE, MIN_PDF_SCALE, stepScale, type PdfZoom } from '../../utils/pdfZoom';
+import styles from './ZoomControls.module.css';
+
+interface ZoomControlsProps {
+    zoom: PdfZoom;
+    // The scale pages are shown at, in CSS pixels per point
+    scale: number;
+    onZoomChange: (zoom: PdfZoom) => void;
+}
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({ zoom, scale, onZoomChange }) => (
+    <div className={styles.container}>
+        <button
+            className={styles.button}
+            onClick={() => onZoomChange(stepScale(scale, -1))}
+            disabled={scale <= MIN_PDF_SCALE}
+            aria-label="Zoom Out"
+            title="Zoom out"
+        >
+            −
+        </button>
+        <span className={styles.level} aria-live="polite">
+            {Math.round(scale / ACTUAL_SIZE_SCALE * 100)}%
+        </span>
+        <button
+            className={styles.button}
+            onClick={() => onZoomChange(stepScale(scale, 1))}
+            disabled={scale >= MAX_PDF_SCALE}
+            aria-label="Zoom In"
+            title="Zoom in"
+        >
+            +
+        </button>
+        <button
+            className={`${styles.button} ${styles.fit} ${zoom === 'page-width' ? styles.active : ''}`}
+            onClick={() => onZoomChange('page-width')}
+            aria-label="Fit Width"
+            title="Fit the page width to the window"
+        >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <polyline points="7 8 3 12 7 16"></polyline>
+                <polyline points="17 8 21 12 17 16"></polyline>
+                <line x1="3" y1="12" x2="21" y2="12"></line>
+            </svg>
+        </button>
+        <button
+            className={`${styles.button} ${styles.fit} ${zoom === 'page-fit' ? styles.active : ''}`}
+            onClick={() => onZoomChange('page-fit')}
+            aria-label="Fit Page"
+            title="Fit the whole page in the window"
+        >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <rect x="6" y="3" width="12" height="18" rx="1"></rect>
+            </svg>
+        </button>
+    </div>
+);
+
+export default ZoomControls;
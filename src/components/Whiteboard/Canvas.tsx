@@ -1,135 +1,493 @@
-import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import React, { useRef, useEffect, useCallback, useState, forwardRef, useImperativeHandle } from 'react';
+import { isEraserTool, isShapeTool, isTextTool, type Annotation, type Point, type Shape, type Stroke, type Tool } from '../../types/annotationTypes';
+import { applyStrokeStyle, drawAnnotations, drawEraserCursor, drawShape, drawStrokeSegment, prepareCanvas } from '../../utils/drawing';
+import { addItems, updateItem, type Command } from '../../utils/history';
+import { continueErasing, ERASER_RADIUS, finishErasing, startErasing, type EraseSession } from '../../utils/erasing';
+import { recognizeShape, SNAP_TO_SHAPE_LABEL } from '../../utils/shapeRecognition';
+import { applyCamera, DEFAULT_CAMERA, fitBounds, screenToWorld, zoomAt, type Camera } from '../../utils/camera';
+import { boundsHeight, boundsWidth, constrainShapeEnd, getAnnotationsBounds, padBounds, type Bounds } from '../../utils/geometry';
+import { renderBoard } from '../../utils/boardExport';
+import { drawAiLayer } from '../../utils/aiDrawing';
+import { useDevicePixelRatio } from '../../hooks/useDevicePixelRatio';
+import { useTextBoxEditor } from '../../hooks/useTextBoxEditor';
+import TextBoxLayer from './TextBoxLayer';
 import styles from './Canvas.module.css';
 
+// What the AI capture contains: what is on screen, or everything drawn on the board
+export type CaptureRegion = 'viewport' | 'content';
+
 export interface CanvasHandle {
-    getDataURL: () => string;
-    clear: () => void;
+    getDataURL: (region?: CaptureRegion) => string;
+    // The part of the board on screen, in world coordinates
+    getViewportBounds: () => Bounds;
+    // The part of the board a capture of the region shows, in world coordinates
+    getCaptureBounds: (region?: CaptureRegion) => Bounds;
+    zoomToFit: () => void;
 }
 
 interface CanvasProps {
+    annotations: Annotation[];
+    // The AI's suggested drawing, shown over the board until it is accepted or discarded
+    aiAnnotations?: Annotation[];
+    onCommand: (command: Command<Annotation>) => void;
     color?: string;
     lineWidth?: number;
-    tool?: 'pen' | 'eraser';
+    tool?: Tool;
+    // Replace finished pen strokes that look like shapes with clean ones
+    snapToShape?: boolean;
+    // Palm rejection: only a stylus (or mouse) draws, fingers pan and zoom
+    penOnly?: boolean;
+}
+
+// Longest side of a content capture, in pixels
+const MAX_CAPTURE_SIZE = 2048;
+const CAPTURE_PADDING = 24;
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+// Shared default, so the drawing callbacks don't change on every render
+const NO_ANNOTATIONS: Annotation[] = [];
+
+interface PanGesture {
+    pointerId: number;
+    start: Point;
+    camera: Camera;
+}
+
+interface PinchGesture {
+    midpoint: Point;
+    distance: number;
+    camera: Camera;
 }
 
-const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ color = '#ffffff', lineWidth = 3, tool = 'pen' }, ref) => {
+const midpoint = (a: Point, b: Point): Point => ({
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2
+});
+
+// The board is a vector model on an infinite plane: strokes and shapes live in the parent's
+// state in world coordinates, and the bitmap is only a rendering of them through the camera.
+const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ annotations, aiAnnotations = NO_ANNOTATIONS, onCommand, color = '#ffffff', lineWidth = 3, tool = 'pen', snapToShape = false, penOnly = false }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [isDrawing, setIsDrawing] = useState(false);
-    const lastPos = useRef<{ x: number; y: number } | null>(null);
+    const currentStroke = useRef<Point[] | null>(null);
+    const currentShape = useRef<Shape | null>(null);
+    const eraseSession = useRef<EraseSession | null>(null);
+    const panGesture = useRef<PanGesture | null>(null);
+    const pinchGesture = useRef<PinchGesture | null>(null);
+    // Fingers currently on the board, in screen coordinates
+    const touches = useRef(new Map<number, Point>());
+    // The one pointer that is drawing, and whether it is a pen, mouse or finger
+    const drawingPointer = useRef<number | null>(null);
+    const drawingPointerType = useRef('');
+    const spacePressed = useRef(false);
+    const [camera, setCamera] = useState<Camera>(DEFAULT_CAMERA);
+    const dpr = useDevicePixelRatio();
+    const textEditor = useTextBoxEditor(annotations, onCommand, isTextTool(tool));
+    const hiddenTextId = textEditor.hiddenId;
+
+    const zoomToFit = () => {
+        const canvas = canvasRef.current;
+        const bounds = getAnnotationsBounds(annotations);
+        if (!canvas) return;
+
+        if (!bounds) {
+            setCamera(DEFAULT_CAMERA);
+            return;
+        }
+        const rect = canvas.getBoundingClientRect();
+        setCamera(fitBounds(bounds, rect.width, rect.height));
+    };
+
+    // Renders every stroke into an offscreen canvas cropped to the content's bounding box
+    const renderContent = (): string => {
+        const bounds = getAnnotationsBounds(annotations);
+        if (!bounds) return '';
+
+        const area = padBounds(bounds, CAPTURE_PADDING);
+        const scale = Math.min(2, MAX_CAPTURE_SIZE / Math.max(boundsWidth(area), boundsHeight(area)));
+        return renderBoard(annotations, area, scale)?.toDataURL('image/png') ?? '';
+    };
+
+    const getViewportBounds = (): Bounds => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        const topLeft = screenToWorld(camera, { x: 0, y: 0 });
+        const bottomRight = screenToWorld(camera, { x: rect?.width ?? window.innerWidth, y: rect?.height ?? window.innerHeight });
+        return { minX: topLeft.x, minY: topLeft.y, maxX: bottomRight.x, maxY: bottomRight.y };
+    };
+
+    // Renders what is on screen at its on-screen resolution. Drawn from the board's own
+    // annotations rather than copied from the canvas, so a pending AI drawing isn't sent as ours.
+    const renderViewport = (): string =>
+        renderBoard(annotations, getViewportBounds(), camera.zoom * dpr)?.toDataURL('image/png') ?? '';
+
+    // An empty board captures nothing as content, so the view stands in
+    const getCaptureBounds = (region: CaptureRegion = 'viewport'): Bounds => {
+        const bounds = region === 'content' ? getAnnotationsBounds(annotations) : null;
+        return bounds ? padBounds(bounds, CAPTURE_PADDING) : getViewportBounds();
+    };
 
     useImperativeHandle(ref, () => ({
-        getDataURL: () => {
-            if (canvasRef.current) {
-                return canvasRef.current.toDataURL('image/png');
+        getDataURL: (region = 'viewport') => {
+            if (region === 'content') {
+                return renderContent();
             }
-            return '';
+            return renderViewport();
         },
-        clear: () => {
-            const canvas = canvasRef.current;
-            if (canvas) {
-                const ctx = canvas.getContext('2d');
-                ctx?.clearRect(0, 0, canvas.width, canvas.height);
-            }
-        }
+        getViewportBounds,
+        getCaptureBounds,
+        zoomToFit
     }));
 
-    const setupCanvas = () => {
+    // Draws the given items (the stored annotations unless an erase is in progress)
+    const redrawCanvas = useCallback((items: Annotation[] = annotations) => {
         const canvas = canvasRef.current;
-        if (canvas) {
-            // Handle high DPI displays
-            const dpr = window.devicePixelRatio || 1;
-            const rect = canvas.getBoundingClientRect();
+        if (!canvas) return;
 
-            // Only resize if dimensions change to avoid clearing content
-            if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
-                canvas.width = rect.width * dpr;
-                canvas.height = rect.height * dpr;
-
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                    ctx.scale(dpr, dpr);
-                    ctx.lineCap = 'round';
-                    ctx.lineJoin = 'round';
-                }
-            }
+        const rect = canvas.getBoundingClientRect();
+        const ctx = prepareCanvas(canvas, rect.width, rect.height);
+        if (ctx) {
+            applyCamera(ctx, camera);
+            drawAnnotations(ctx, items, hiddenTextId);
+            drawAiLayer(ctx, aiAnnotations, camera.zoom);
         }
-    };
+    }, [annotations, aiAnnotations, camera, hiddenTextId]);
 
+    // Redraw whenever the annotations, the camera, the element size or the pixel density change
     useEffect(() => {
-        setupCanvas();
-        window.addEventListener('resize', setupCanvas);
-        return () => window.removeEventListener('resize', setupCanvas);
-    }, []);
+        redrawCanvas();
+    }, [redrawCanvas, dpr]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
 
+        const observer = new ResizeObserver(() => redrawCanvas());
+        observer.observe(canvas);
+        return () => observer.disconnect();
+    }, [redrawCanvas]);
+
+    // Wheel zooms around the cursor. Registered natively because React's wheel listener is
+    // passive and could not stop the browser's own page zoom on Ctrl+wheel / trackpad pinch.
     useEffect(() => {
         const canvas = canvasRef.current;
-        const ctx = canvas?.getContext('2d');
+        if (!canvas) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = canvas.getBoundingClientRect();
+            const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+            const factor = Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED * (e.ctrlKey ? 4 : 1));
+            setCamera(prev => zoomAt(prev, anchor, factor));
+        };
+
+        canvas.addEventListener('wheel', handleWheel, { passive: false });
+        return () => canvas.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    // Holding space turns the pointer into a hand for panning
+    useEffect(() => {
+        const isTyping = (e: KeyboardEvent) =>
+            e.target instanceof HTMLElement && !!e.target.closest('input, textarea, [contenteditable="true"]');
+
+        // The board stays mounted (hidden) in PDF mode, where space should keep scrolling the page
+        const isHidden = () => !canvasRef.current || getComputedStyle(canvasRef.current).visibility === 'hidden';
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e) || isHidden()) return;
+            e.preventDefault();
+            spacePressed.current = true;
+            if (canvasRef.current && !panGesture.current) {
+                canvasRef.current.style.cursor = 'grab';
+            }
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code !== 'Space') return;
+            spacePressed.current = false;
+            if (canvasRef.current) {
+                canvasRef.current.style.cursor = '';
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, []);
+
+    const toScreen = (clientX: number, clientY: number): Point => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        return rect ? { x: clientX - rect.left, y: clientY - rect.top } : { x: 0, y: 0 };
+    };
+
+    // World position of a pointer sample, with pressure for pens (mice and fingers report a constant)
+    const getCoordinates = (e: PointerEvent | React.PointerEvent): Point => {
+        const point = screenToWorld(camera, toScreen(e.clientX, e.clientY));
+        return e.pointerType === 'pen' ? { ...point, pressure: e.pressure } : point;
+    };
+
+    const startDrawing = (point: Point) => {
+        // Text tools place boxes on click instead (see handleClick)
+        if (isTextTool(tool)) return;
+
+        if (isEraserTool(tool)) {
+            eraseSession.current = startErasing(tool, annotations, point, ERASER_RADIUS / camera.zoom);
+            showErasing(eraseSession.current, point);
+        } else if (isShapeTool(tool)) {
+            currentShape.current = { type: 'shape', kind: tool, start: point, end: point, color, lineWidth };
+        } else {
+            currentStroke.current = [point];
+        }
+    };
+
+    // Redraws the board as it will look after the erase, with the eraser outline on top
+    const showErasing = (session: EraseSession, point: Point) => {
+        redrawCanvas(session.current);
+        const ctx = canvasRef.current?.getContext('2d');
         if (ctx) {
-            ctx.strokeStyle = tool === 'eraser' ? 'rgba(0,0,0,1)' : color;
-            ctx.lineWidth = tool === 'eraser' ? 20 : lineWidth;
-            ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+            applyCamera(ctx, camera);
+            drawEraserCursor(ctx, point, ERASER_RADIUS / camera.zoom);
         }
-    }, [color, lineWidth, tool]);
+    };
 
-    const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-        setIsDrawing(true);
-        const { x, y } = getCoordinates(e);
-        lastPos.current = { x, y };
+    // Redraws the board with the shape being dragged out on top
+    const previewShape = (shape: Shape, point: Point, constrain: boolean) => {
+        shape.end = constrain ? constrainShapeEnd(shape.kind, shape.start, point) : point;
+
+        redrawCanvas();
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx) {
+            applyCamera(ctx, camera);
+            drawShape(ctx, shape);
+        }
     };
 
-    const draw = (e: React.MouseEvent | React.TouchEvent) => {
-        if (!isDrawing || !lastPos.current || !canvasRef.current) return;
+    // Takes every sample since the last move (coalesced events), so fast pen strokes stay smooth
+    const draw = (samples: Point[], constrain: boolean) => {
+        const latest = samples[samples.length - 1];
 
-        const { x, y } = getCoordinates(e);
-        const ctx = canvasRef.current.getContext('2d');
+        const session = eraseSession.current;
+        if (session && isEraserTool(tool)) {
+            samples.forEach(point => continueErasing(tool, session, point, ERASER_RADIUS / camera.zoom));
+            showErasing(session, latest);
+            return;
+        }
+
+        if (currentShape.current) {
+            previewShape(currentShape.current, latest, constrain);
+            return;
+        }
+
+        const points = currentStroke.current;
+        if (!points || !canvasRef.current) return;
 
+        // Draw the new segments straight away; the full redraw happens when the stroke is committed
+        const ctx = canvasRef.current.getContext('2d');
         if (ctx) {
-            ctx.beginPath();
-            ctx.moveTo(lastPos.current.x, lastPos.current.y);
-            ctx.lineTo(x, y);
-            ctx.stroke();
-            lastPos.current = { x, y };
+            applyCamera(ctx, camera);
+            applyStrokeStyle(ctx, { color, lineWidth });
         }
+        samples.forEach(point => {
+            const prev = points[points.length - 1];
+            points.push(point);
+            if (ctx) {
+                drawStrokeSegment(ctx, lineWidth, prev, point);
+            }
+        });
     };
 
     const stopDrawing = () => {
-        setIsDrawing(false);
-        lastPos.current = null;
+        const session = eraseSession.current;
+        eraseSession.current = null;
+        if (session && isEraserTool(tool)) {
+            const command = finishErasing(tool, session);
+            if (command) {
+                onCommand(command);
+            } else {
+                redrawCanvas();
+            }
+            return;
+        }
+
+        const shape = currentShape.current;
+        currentShape.current = null;
+        if (shape) {
+            // A click without a drag leaves nothing behind
+            if (Math.hypot(shape.end.x - shape.start.x, shape.end.y - shape.start.y) > 2) {
+                onCommand(addItems<Annotation>([shape]));
+            } else {
+                redrawCanvas();
+            }
+            return;
+        }
+
+        const points = currentStroke.current;
+        currentStroke.current = null;
+
+        if (points && points.length >= 2 && tool === 'pen') {
+            const stroke: Stroke = { type: 'stroke', points, color, lineWidth };
+            onCommand(addItems<Annotation>([stroke]));
+
+            // Snapping is its own step, so a single undo restores the raw ink
+            const shape = snapToShape ? recognizeShape(stroke) : null;
+            if (shape) {
+                onCommand(updateItem<Annotation>(stroke, shape, SNAP_TO_SHAPE_LABEL));
+            }
+        }
     };
 
-    const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
-        const canvas = canvasRef.current;
-        if (!canvas) return { x: 0, y: 0 };
+    // Abandons a stroke in progress, e.g. when a second finger turns it into a gesture
+    const cancelDrawing = () => {
+        drawingPointer.current = null;
+        eraseSession.current = null;
+        currentStroke.current = null;
+        currentShape.current = null;
+        redrawCanvas();
+    };
 
-        let clientX, clientY;
+    const startPan = (e: React.PointerEvent, point: Point) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        panGesture.current = { pointerId: e.pointerId, start: point, camera };
+        if (canvasRef.current) canvasRef.current.style.cursor = 'grabbing';
+    };
 
-        if ('touches' in e) {
-            clientX = e.touches[0].clientX;
-            clientY = e.touches[0].clientY;
-        } else {
-            clientX = (e as React.MouseEvent).clientX;
-            clientY = (e as React.MouseEvent).clientY;
+    const startPinch = () => {
+        const [a, b] = Array.from(touches.current.values());
+        panGesture.current = null;
+        pinchGesture.current = { midpoint: midpoint(a, b), distance: Math.hypot(a.x - b.x, a.y - b.y), camera };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        const point = toScreen(e.clientX, e.clientY);
+        const isTouch = e.pointerType === 'touch';
+
+        if (isTouch) {
+            // A resting palm must not disturb a pen that is already drawing
+            if (drawingPointer.current !== null && drawingPointerType.current === 'pen') return;
+
+            touches.current.set(e.pointerId, point);
+            if (touches.current.size >= 2) {
+                // Two fingers: pan with the midpoint, zoom with the spread
+                cancelDrawing();
+                startPinch();
+                return;
+            }
+            // With "pen only", fingers never draw; one finger pans instead
+            if (penOnly) {
+                startPan(e, point);
+                return;
+            }
+        } else if (e.pointerType === 'pen') {
+            // The pen takes over from any touch gesture, e.g. a palm that landed first
+            panGesture.current = null;
+            pinchGesture.current = null;
         }
 
-        const rect = canvas.getBoundingClientRect();
-        return {
-            x: clientX - rect.left,
-            y: clientY - rect.top
-        };
+        // Space + drag or middle-button drag pans
+        if (spacePressed.current || e.button === 1) {
+            e.preventDefault();
+            startPan(e, point);
+            return;
+        }
+        if (e.button !== 0 || drawingPointer.current !== null) return;
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        drawingPointer.current = e.pointerId;
+        drawingPointerType.current = e.pointerType;
+        startDrawing(getCoordinates(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (touches.current.has(e.pointerId)) {
+            touches.current.set(e.pointerId, toScreen(e.clientX, e.clientY));
+        }
+
+        const pinch = pinchGesture.current;
+        if (pinch && touches.current.has(e.pointerId)) {
+            if (touches.current.size < 2) return;
+            const [a, b] = Array.from(touches.current.values());
+            const center = midpoint(a, b);
+            const zoomed = zoomAt(pinch.camera, pinch.midpoint, Math.hypot(a.x - b.x, a.y - b.y) / Math.max(pinch.distance, 1));
+            setCamera({
+                ...zoomed,
+                x: zoomed.x + center.x - pinch.midpoint.x,
+                y: zoomed.y + center.y - pinch.midpoint.y
+            });
+            return;
+        }
+
+        const pan = panGesture.current;
+        if (pan && pan.pointerId === e.pointerId) {
+            const point = toScreen(e.clientX, e.clientY);
+            setCamera({
+                ...pan.camera,
+                x: pan.camera.x + point.x - pan.start.x,
+                y: pan.camera.y + point.y - pan.start.y
+            });
+            return;
+        }
+
+        if (e.pointerId !== drawingPointer.current) return;
+        const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+        const samples = coalesced.length > 0 ? coalesced : [e.nativeEvent];
+        draw(samples.map(getCoordinates), e.shiftKey);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        touches.current.delete(e.pointerId);
+
+        if (pinchGesture.current) {
+            // The gesture ends once every finger has lifted, so a leftover finger doesn't start drawing
+            if (touches.current.size === 0) {
+                pinchGesture.current = null;
+            }
+            return;
+        }
+
+        if (panGesture.current?.pointerId === e.pointerId) {
+            panGesture.current = null;
+            if (canvasRef.current) canvasRef.current.style.cursor = spacePressed.current ? 'grab' : '';
+            return;
+        }
+
+        if (e.pointerId === drawingPointer.current) {
+            drawingPointer.current = null;
+            stopDrawing();
+        }
+    };
+
+    // The browser took the pointer over (or it left the screen); nothing from it is kept
+    const handlePointerCancel = (e: React.PointerEvent) => {
+        if (e.pointerId === drawingPointer.current) {
+            cancelDrawing();
+        }
+        handlePointerUp(e);
+    };
+
+    // With a text tool, a click on empty board lets go of the selected box, or places a new one
+    const handleClick = (e: React.MouseEvent) => {
+        if (!isTextTool(tool) || e.button !== 0 || spacePressed.current) return;
+
+        if (textEditor.selection) {
+            textEditor.select(null);
+        } else {
+            textEditor.create(tool, screenToWorld(camera, toScreen(e.clientX, e.clientY)), color);
+        }
     };
 
     return (
-        <canvas
-            ref={canvasRef}
-            className={styles.canvas}
-            onMouseDown={startDrawing}
-            onMouseMove={draw}
-            onMouseUp={stopDrawing}
-            onMouseLeave={stopDrawing}
-            onTouchStart={startDrawing}
-            onTouchMove={draw}
-            onTouchEnd={stopDrawing}
-        />
+        <div className={styles.surface}>
+            <canvas
+                ref={canvasRef}
+                className={`${styles.canvas} ${isTextTool(tool) ? styles.textCursor : ''}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerCancel}
+                onClick={handleClick}
+            />
+            <TextBoxLayer editor={textEditor} interactive={isTextTool(tool)} camera={camera} />
+        </div>
     );
 });
 
@@ -1,26 +1,75 @@
-import { useState, forwardRef, useImperativeHandle, useRef } from 'react';
+import { useState, forwardRef, useImperativeHandle, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
 import { Document, Page, pdfjs } from 'react-pdf';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
 import { PDFDocument } from 'pdf-lib';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
 import PageCanvas, { type PageCanvasHandle } from './PageCanvas';
-import type { Stroke, PDFAnnotations } from '../../types/annotationTypes';
+import { isMarkupTool, MARKUP_COLORS, type Annotation, type MarkupKind, type PDFAnnotations, type TextMarkup, type Tool } from '../../types/annotationTypes';
+import { addItems, type Command } from '../../utils/history';
+import { downloadBlob, toFileName } from '../../utils/download';
+import { boundsHeight, boundsWidth, getAnnotationsBounds, padBounds, type Bounds } from '../../utils/geometry';
+import { applyCamera } from '../../utils/camera';
+import { drawAnnotations, prepareCanvas } from '../../utils/drawing';
+import { writeAnnotations } from '../../utils/pdfAnnotations';
+import { DEFAULT_TEXT_BUDGET, formatDocumentText, joinTextItems, readDocumentInfo, readTextItems, type DocumentInfo, type OutlineEntry, type PageSize, type PageText } from '../../utils/pdfContent';
+import { A4_PAGE_SIZE, resolveScale, type PdfZoom } from '../../utils/pdfZoom';
+import { highlightMatches, hitKey, MAX_SEARCH_HITS, searchPage, type SearchHit } from '../../utils/pdfSearch';
+import PDFSidebar from './PDFSidebar';
+import { readPageSelection, type PageTextSelection } from '../../utils/textSelection';
 import styles from './PDFLayer.module.css';
 
+const NO_ANNOTATIONS: Annotation[] = [];
+
+// How much of the page around a selection is sent with it, in points
+const SELECTION_CONTEXT_PADDING = 45;
+
+// Pages are rendered while within this distance of the view (a share of its height); the rest
+// are blank placeholders of the same size
+const RENDER_MARGIN = '150%';
+
+// "report.pdf" is saved as "report (annotated).pdf"
+function annotatedFileName(file: File | string): string {
+    const source = file instanceof File ? file.name : decodeURIComponent(file.split(/[?#]/)[0].split('/').pop() ?? '');
+    return toFileName(`${source.replace(/\.pdf$/i, '') || 'document'} (annotated)`, 'pdf');
+}
+
 // Configure worker via CDN for better compatibility
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
 
 export interface PDFLayerHandle {
     exportPdf: () => void;
-    captureCurrentPage: () => string;
+    // The page as shown, with its annotations; pages outside the rendered window are rendered for it
+    capturePage: (pageNumber: number) => Promise<string>;
+    // The pages' text with the document's title and outline, within a budget in characters
+    getDocumentText: (pageNumbers: number[], budget?: number) => Promise<string>;
+    // Every page's text, read one page at a time
+    getAllPagesText: (signal?: AbortSignal, onProgress?: (done: number, total: number) => void) => Promise<PageText[]>;
+    scrollToPage: (pageNumber: number) => void;
 }
 
 interface PDFLayerProps {
     file: File | string | null;
-    tool: 'pen' | 'eraser';
+    tool: Tool;
     color?: string;
     annotations: PDFAnnotations;
-    onAnnotationsChange: (annotations: PDFAnnotations) => void;
+    onPageCommand: (pageNumber: number, command: Command<Annotation>) => void;
+    // Color of highlights and underlines
+    markupColor?: string;
+    // Receives the selected text with an image of the page around it
+    onAskAboutSelection?: (selection: PageTextSelection, image: string) => void;
+    onPageCountChange?: (pageCount: number) => void;
+    // The page taking up most of the view, as the user scrolls
+    onVisiblePageChange?: (pageNumber: number) => void;
+    zoom?: PdfZoom;
+    // The scale pages end up shown at, in CSS pixels per point
+    onScaleChange?: (scale: number) => void;
+    // The sidebar with page thumbnails, the outline and search
+    sidebarOpen?: boolean;
+    onSidebarToggle?: () => void;
+    snapToShape?: boolean;
+    penOnly?: boolean;
 }
 
 const PDFLayer = forwardRef<PDFLayerHandle, PDFLayerProps>(({
@@ -28,85 +77,427 @@ const PDFLayer = forwardRef<PDFLayerHandle, PDFLayerProps>(({
     tool,
     color = '#ffffff',
     annotations,
-    onAnnotationsChange
+    onPageCommand,
+    markupColor = MARKUP_COLORS[0].value,
+    onAskAboutSelection,
+    onPageCountChange,
+    onVisiblePageChange,
+    zoom = 'auto',
+    onScaleChange,
+    sidebarOpen = false,
+    onSidebarToggle,
+    snapToShape = false,
+    penOnly = false
 }, ref) => {
     const [numPages, setNumPages] = useState<number>(0);
     const [error, setError] = useState<string | null>(null);
-    const pageWidth = window.innerWidth > 1000 ? 800 : window.innerWidth * 0.9;
+    const [pageSizes, setPageSizes] = useState<Record<number, PageSize>>({});
+    // Pages near the view, which are rendered
+    const [renderedPages, setRenderedPages] = useState<Set<number>>(() => new Set());
+    // Text selected with the select tool, with its actions shown underneath
+    const [selection, setSelection] = useState<PageTextSelection | null>(null);
+    const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+    const [visiblePage, setVisiblePage] = useState(1);
+    const [outline, setOutline] = useState<OutlineEntry[] | null>(null);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+    const [currentHit, setCurrentHit] = useState(0);
+    const [isSearching, setIsSearching] = useState(false);
+    // Bumped by every search, so a slower earlier one can tell it has been replaced
+    const searchRun = useRef(0);
+    // The current hit is scrolled to once its page's text layer shows it
+    const scrollToHit = useRef(false);
+    // Size of the scrolling view, which the fitting zoom levels fit pages into
+    const [viewSize, setViewSize] = useState({ width: window.innerWidth, height: window.innerHeight });
     const containerRef = useRef<HTMLDivElement>(null);
+    // Where the view is scrolled to, as a share of the document, kept in place when the zoom changes
+    const scrollPosition = useRef({ x: 0, y: 0 });
     const pageCanvasRefs = useRef<Map<number, PageCanvasHandle>>(new Map());
+    // Extracted once per document and reused for every later question
+    const documentInfo = useRef<Promise<DocumentInfo> | null>(null);
+    const pageItems = useRef<Map<number, Promise<TextItem[]>>>(new Map());
+
+    const getPageItems = (pdf: PDFDocumentProxy, pageNumber: number): Promise<TextItem[]> => {
+        let items = pageItems.current.get(pageNumber);
+        if (!items) {
+            items = pdf.getPage(pageNumber).then(readTextItems);
+            pageItems.current.set(pageNumber, items);
+        }
+        return items;
+    };
 
-    useImperativeHandle(ref, () => ({
-        captureCurrentPage: () => {
-            // Find the first visible page wrapper
-            const container = containerRef.current;
-            console.log('captureCurrentPage: container =', container);
-            if (!container) {
-                console.warn('captureCurrentPage: No container ref');
-                return '';
+    const getPageText = (pdf: PDFDocumentProxy, pageNumber: number): Promise<string> =>
+        getPageItems(pdf, pageNumber).then(joinTextItems);
+
+    // Follows how much of each page is on screen and reports the one showing the most
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container || !pdfDocument) return;
+
+        const visibleHeights = new Map<number, number>();
+        let reported = 0;
+        const observer = new IntersectionObserver(entries => {
+            entries.forEach(entry => {
+                const pageNumber = Number((entry.target as HTMLElement).dataset.page);
+                visibleHeights.set(pageNumber, entry.isIntersecting ? entry.intersectionRect.height : 0);
+            });
+            let best = reported;
+            visibleHeights.forEach((height, pageNumber) => {
+                if (height > (visibleHeights.get(best) ?? 0)) best = pageNumber;
+            });
+            if (best !== reported && best > 0) {
+                reported = best;
+                setVisiblePage(best);
+                onVisiblePageChange?.(best);
             }
-
-            // Get the first page's wrapper
-            const pageWrapper = container.querySelector(`.${styles.pageWrapper}`) as HTMLElement;
-            console.log('captureCurrentPage: pageWrapper =', pageWrapper);
-            if (!pageWrapper) {
-                console.warn('captureCurrentPage: No page wrapper found');
-                // Try finding any div with relative positioning
-                const allDivs = container.querySelectorAll('div');
-                console.log('captureCurrentPage: Found divs:', allDivs.length);
-                return '';
+        }, { threshold: Array.from({ length: 11 }, (_, i) => i / 10) });
+
+        container.querySelectorAll<HTMLElement>('[data-page]').forEach(wrapper => observer.observe(wrapper));
+        return () => observer.disconnect();
+    }, [pdfDocument, numPages, onVisiblePageChange]);
+
+    // Fitting zoom levels follow the view's size
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => {
+            setViewSize({ width: container.clientWidth, height: container.clientHeight });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [file, error]);
+
+    // Renders only the pages near the view. Each page's placeholder keeps its place, so pages
+    // mounting and unmounting don't move the scroll position.
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container || !pdfDocument) return;
+
+        const observer = new IntersectionObserver(entries => {
+            setRenderedPages(prev => {
+                const next = new Set(prev);
+                entries.forEach(entry => {
+                    const pageNumber = Number((entry.target as HTMLElement).dataset.page);
+                    if (entry.isIntersecting) {
+                        next.add(pageNumber);
+                    } else {
+                        next.delete(pageNumber);
+                    }
+                });
+                return next;
+            });
+        }, { root: container, rootMargin: `${RENDER_MARGIN} 0px` });
+
+        container.querySelectorAll<HTMLElement>('[data-page]').forEach(wrapper => observer.observe(wrapper));
+        return () => observer.disconnect();
+    }, [pdfDocument, numPages]);
+
+    // Every page's size, read without rendering, so the placeholders are the pages' real size
+    useEffect(() => {
+        if (!pdfDocument) return;
+        let cancelled = false;
+
+        const readSizes = async () => {
+            const sizes: Record<number, PageSize> = {};
+            for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+                const page = await pdfDocument.getPage(pageNumber);
+                if (cancelled) return;
+                const { width, height } = page.getViewport({ scale: 1 });
+                sizes[pageNumber] = { width, height };
             }
+            setPageSizes(prev => ({ ...sizes, ...prev }));
+        };
+        readSizes().catch(err => console.error('Could not read the page sizes:', err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [pdfDocument]);
+
+    // The outline is read with the document's details, which questions reuse
+    useEffect(() => {
+        if (!pdfDocument) return;
+        let cancelled = false;
+        documentInfo.current ??= readDocumentInfo(pdfDocument);
+        documentInfo.current
+            .then(info => {
+                if (!cancelled) setOutline(info.outline);
+            })
+            .catch(err => console.error('Could not read the outline:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [pdfDocument]);
+
+    // Marks the current search hit on its page, if the page's text layer has rendered
+    const markCurrentHit = useCallback(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        container.querySelectorAll(`.${styles.currentHit}`).forEach(mark => mark.classList.remove(styles.currentHit));
+
+        const hit = searchHits[currentHit];
+        const mark = hit && container.querySelector(`[data-page="${hit.pageNumber}"] mark[data-hit="${hitKey(hit)}"]`);
+        if (!mark) return;
+        mark.classList.add(styles.currentHit);
+        if (scrollToHit.current) {
+            scrollToHit.current = false;
+            mark.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    }, [searchHits, currentHit]);
 
-            // Get the PDF canvas (rendered by react-pdf) - try multiple selectors
-            let pdfCanvas = pageWrapper.querySelector('canvas.react-pdf__Page__canvas') as HTMLCanvasElement;
-            if (!pdfCanvas) {
-                // Try finding any canvas in the page wrapper
-                const allCanvases = pageWrapper.querySelectorAll('canvas');
-                console.log('captureCurrentPage: Found canvases:', allCanvases.length);
-                if (allCanvases.length > 0) {
-                    pdfCanvas = allCanvases[0] as HTMLCanvasElement;
-                }
-            }
+    useEffect(() => {
+        markCurrentHit();
+    }, [markCurrentHit]);
 
-            console.log('captureCurrentPage: pdfCanvas =', pdfCanvas);
-            if (!pdfCanvas) {
-                console.warn('No PDF canvas found for capture');
-                return '';
-            }
+    const scrollToPage = (pageNumber: number) => {
+        containerRef.current
+            ?.querySelector(`[data-page="${pageNumber}"]`)
+            ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    };
 
-            console.log('captureCurrentPage: PDF canvas size:', pdfCanvas.width, 'x', pdfCanvas.height);
+    const goToHit = (index: number) => {
+        const hit = searchHits[index];
+        if (!hit) return;
+        setCurrentHit(index);
+        scrollToHit.current = true;
+        // Bring the page into view; the hit itself is centred once its text layer is there
+        scrollToPage(hit.pageNumber);
+    };
 
-            // Create a combined canvas
-            const combinedCanvas = document.createElement('canvas');
-            const width = pdfCanvas.width;
-            const height = pdfCanvas.height;
-            combinedCanvas.width = width;
-            combinedCanvas.height = height;
+    const runSearch = async (query: string) => {
+        const run = ++searchRun.current;
+        setSearchQuery(query);
+        setSearchHits([]);
+        setCurrentHit(0);
 
-            const ctx = combinedCanvas.getContext('2d');
-            if (!ctx) {
-                console.warn('captureCurrentPage: Could not get canvas context');
-                return '';
-            }
+        const pdf = pdfDocument;
+        if (!pdf || !query.trim()) {
+            setIsSearching(false);
+            return;
+        }
 
-            // Draw the PDF page first
-            ctx.drawImage(pdfCanvas, 0, 0);
-
-            // Overlay the annotation canvas if we have annotations
-            const annotationCanvasHandle = pageCanvasRefs.current.get(1);
-            if (annotationCanvasHandle) {
-                // Find our annotation canvas (the second canvas in the wrapper)
-                const allCanvases = pageWrapper.querySelectorAll('canvas');
-                if (allCanvases.length > 1) {
-                    const annotationCanvas = allCanvases[1] as HTMLCanvasElement;
-                    ctx.drawImage(annotationCanvas, 0, 0, width, height);
-                }
+        setIsSearching(true);
+        const hits: SearchHit[] = [];
+        try {
+            for (let pageNumber = 1; pageNumber <= pdf.numPages && hits.length < MAX_SEARCH_HITS; pageNumber++) {
+                const items = await getPageItems(pdf, pageNumber);
+                if (run !== searchRun.current) return;
+                hits.push(...searchPage(pageNumber, items, query));
             }
+        } catch (err) {
+            console.error('Search failed:', err);
+        }
+        if (run !== searchRun.current) return;
+
+        setSearchHits(hits.slice(0, MAX_SEARCH_HITS));
+        setIsSearching(false);
+        if (hits.length > 0) {
+            scrollToHit.current = true;
+            scrollToPage(hits[0].pageNumber);
+        }
+    };
+
+    // Search matches are marked in the text layer; the text itself stays invisible over the canvas
+    const highlightSearch = useCallback(
+        ({ str, itemIndex }: { str: string; itemIndex: number }) => highlightMatches(str, searchQuery, itemIndex, styles.searchHit),
+        [searchQuery]
+    );
+    const showSearchHits = sidebarOpen && searchQuery.trim() !== '';
+
+    const annotatedPages = new Set(Object.keys(annotations).map(Number).filter(page => annotations[page].length > 0));
+
+    // Until a page's size is known, assume it matches the first page, or A4 before that is known
+    const pageSizeOf = (pageNumber: number): PageSize => pageSizes[pageNumber] ?? pageSizes[1] ?? A4_PAGE_SIZE;
+
+    const largestPage = Object.values(pageSizes).reduce<PageSize>(
+        (largest, size) => ({ width: Math.max(largest.width, size.width), height: Math.max(largest.height, size.height) }),
+        pageSizeOf(1)
+    );
+    const scale = resolveScale(zoom, viewSize, largestPage);
+
+    useEffect(() => {
+        onScaleChange?.(scale);
+    }, [scale, onScaleChange]);
+
+    // Keeps the same part of the document in view when the zoom changes
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        container.scrollLeft = scrollPosition.current.x * container.scrollWidth;
+        container.scrollTop = scrollPosition.current.y * container.scrollHeight;
+    }, [scale]);
+
+    const handleScroll = () => {
+        const container = containerRef.current;
+        if (!container) return;
+        scrollPosition.current = {
+            x: container.scrollLeft / Math.max(1, container.scrollWidth),
+            y: container.scrollTop / Math.max(1, container.scrollHeight)
+        };
+    };
+
+    // The page's content as shown, or rendered afresh at the same resolution while the page is
+    // outside the rendered window
+    const renderPageImage = async (pageNumber: number): Promise<HTMLCanvasElement | null> => {
+        const shown = containerRef.current?.querySelector<HTMLCanvasElement>(
+            `.react-pdf__Page[data-page-number="${pageNumber}"] canvas.react-pdf__Page__canvas`
+        );
+        if (shown) return shown;
+        if (!pdfDocument) return null;
+
+        const page = await pdfDocument.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: scale * (window.devicePixelRatio || 1) });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(viewport.width);
+        canvas.height = Math.round(viewport.height);
+        await page.render({ canvas, viewport }).promise;
+        return canvas;
+    };
 
-            const result = combinedCanvas.toDataURL('image/png');
-            console.log('captureCurrentPage: Result length:', result.length);
-            return result;
+    // The page's annotations, from its overlay or drawn afresh while the overlay is unmounted
+    const renderAnnotationImage = (pageNumber: number): HTMLCanvasElement | null => {
+        const overlay = pageCanvasRefs.current.get(pageNumber)?.getCanvas();
+        if (overlay) return overlay;
+
+        const { width, height } = pageSizeOf(pageNumber);
+        const canvas = document.createElement('canvas');
+        const ctx = prepareCanvas(canvas, width * scale, height * scale);
+        if (!ctx) return null;
+        applyCamera(ctx, { x: 0, y: 0, zoom: scale });
+        drawAnnotations(ctx, annotations[pageNumber] ?? NO_ANNOTATIONS);
+        return canvas;
+    };
+
+    // The page's content and annotations within the region (in points), at the resolution the
+    // page is rendered at
+    const capturePageRegion = async (pageNumber: number, region: Bounds): Promise<string> => {
+        const pageWidth = pageSizeOf(pageNumber).width;
+        const overlay = renderAnnotationImage(pageNumber);
+        const pdfCanvas = await renderPageImage(pageNumber);
+        if (!pdfCanvas) return '';
+
+        const pixelsPerPoint = pdfCanvas.width / pageWidth;
+        const output = document.createElement('canvas');
+        output.width = Math.max(1, Math.round(boundsWidth(region) * pixelsPerPoint));
+        output.height = Math.max(1, Math.round(boundsHeight(region) * pixelsPerPoint));
+        const ctx = output.getContext('2d');
+        if (!ctx) return '';
+
+        // Both canvases cover the page, each at its own pixel density
+        const copyRegion = (source: HTMLCanvasElement) => {
+            const sourceScale = source.width / pageWidth;
+            ctx.drawImage(
+                source,
+                region.minX * sourceScale, region.minY * sourceScale,
+                boundsWidth(region) * sourceScale, boundsHeight(region) * sourceScale,
+                0, 0, output.width, output.height
+            );
+        };
+        copyRegion(pdfCanvas);
+        if (overlay) {
+            copyRegion(overlay);
+        }
+        return output.toDataURL('image/png');
+    };
+
+    const markSelection = (pageSelection: PageTextSelection, kind: MarkupKind) => {
+        const markup: TextMarkup = { type: 'markup', kind, rects: pageSelection.rects, color: markupColor, text: pageSelection.text };
+        onPageCommand(pageSelection.pageNumber, addItems<Annotation>([markup]));
+    };
+
+    const dismissSelection = () => {
+        window.getSelection()?.removeAllRanges();
+        setSelection(null);
+    };
+
+    // A finished selection is marked right away with a markup tool, or offered actions with the select tool
+    const handleSelectionEnd = () => {
+        if (tool !== 'select' && !isMarkupTool(tool)) return;
+        const shown = readPageSelection();
+        if (!shown) {
+            setSelection(null);
+            return;
+        }
+        // The selection is read off the screen; markup is kept in points like every annotation
+        const pageSelection = {
+            ...shown,
+            rects: shown.rects.map(rect => ({ x: rect.x / scale, y: rect.y / scale, width: rect.width / scale, height: rect.height / scale }))
+        };
+        if (isMarkupTool(tool)) {
+            markSelection(pageSelection, tool);
+            dismissSelection();
+        } else {
+            setSelection(pageSelection);
+        }
+    };
+
+    const handleMarkSelection = (kind: MarkupKind) => {
+        if (selection) {
+            markSelection(selection, kind);
+        }
+        dismissSelection();
+    };
+
+    const handleAskAboutSelection = async () => {
+        if (!selection || !onAskAboutSelection) return;
+        // The selection's own extent, with some of the page around it for context
+        const markup: TextMarkup = { type: 'markup', kind: 'highlight', rects: selection.rects, color: markupColor };
+        const bounds = getAnnotationsBounds([markup]);
+        if (bounds) {
+            const padded = padBounds(bounds, SELECTION_CONTEXT_PADDING);
+            const region = {
+                minX: Math.max(0, padded.minX),
+                minY: Math.max(0, padded.minY),
+                maxX: Math.min(pageSizeOf(selection.pageNumber).width, padded.maxX),
+                maxY: Math.min(pageSizeOf(selection.pageNumber).height, padded.maxY)
+            };
+            const image = capturePageRegion(selection.pageNumber, region);
+            dismissSelection();
+            onAskAboutSelection(selection, await image);
+            return;
+        }
+        dismissSelection();
+    };
+
+    const handleCopySelection = () => {
+        if (selection) {
+            navigator.clipboard.writeText(selection.text).catch(err => console.error('Could not copy the selection:', err));
+        }
+        dismissSelection();
+    };
+
+    useImperativeHandle(ref, () => ({
+        capturePage: (pageNumber) => {
+            const { width, height } = pageSizeOf(pageNumber);
+            return capturePageRegion(pageNumber, { minX: 0, minY: 0, maxX: width, maxY: height });
+        },
+        getDocumentText: async (pageNumbers, budget = DEFAULT_TEXT_BUDGET) => {
+            const pdf = pdfDocument;
+            if (!pdf) return '';
+
+            documentInfo.current ??= readDocumentInfo(pdf);
+            const [info, pages] = await Promise.all([
+                documentInfo.current,
+                Promise.all(pageNumbers
+                    .filter(pageNumber => pageNumber >= 1 && pageNumber <= pdf.numPages)
+                    .map(async pageNumber => ({ pageNumber, text: await getPageText(pdf, pageNumber) })))
+            ]);
+            return formatDocumentText(info, pages, budget);
+        },
+        getAllPagesText: async (signal, onProgress) => {
+            const pdf = pdfDocument;
+            if (!pdf) return [];
+
+            const pages: PageText[] = [];
+            for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+                signal?.throwIfAborted();
+                onProgress?.(pageNumber - 1, pdf.numPages);
+                pages.push({ pageNumber, text: await getPageText(pdf, pageNumber) });
+            }
+            onProgress?.(pdf.numPages, pdf.numPages);
+            return pages;
         },
+        scrollToPage,
         exportPdf: async () => {
             if (!file) return;
 
@@ -120,46 +511,15 @@ const PDFLayer = forwardRef<PDFLayerHandle, PDFLayerProps>(({
                     pdfBytes = await response.arrayBuffer();
                 }
 
-                // Load the PDF with pdf-lib
+                // Load the PDF with pdf-lib and add the annotations as real PDF annotations
                 const pdfDoc = await PDFDocument.load(pdfBytes);
-                const pages = pdfDoc.getPages();
-
-                // Embed annotations for each page
-                for (let i = 0; i < pages.length; i++) {
-                    const pageNumber = i + 1;
-                    const canvasHandle = pageCanvasRefs.current.get(pageNumber);
-
-                    if (canvasHandle && annotations[pageNumber]?.length > 0) {
-                        const dataUrl = canvasHandle.getDataURL();
-                        const pngImageBytes = await fetch(dataUrl).then(res => res.arrayBuffer());
-                        const pngImage = await pdfDoc.embedPng(pngImageBytes);
-
-                        const page = pages[i];
-                        const { width, height } = page.getSize();
-
-                        // Draw the annotation image on top of the page
-                        page.drawImage(pngImage, {
-                            x: 0,
-                            y: 0,
-                            width: width,
-                            height: height,
-                        });
-                    }
-                }
+                await writeAnnotations(pdfDoc, annotations);
 
                 // Save the modified PDF
                 const modifiedPdfBytes = await pdfDoc.save();
 
-                // Create download link
                 const blob = new Blob([new Uint8Array(modifiedPdfBytes)], { type: 'application/pdf' });
-                const url = URL.createObjectURL(blob);
-                const link = document.createElement('a');
-                link.href = url;
-                link.download = 'annotated.pdf';
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-                URL.revokeObjectURL(url);
+                downloadBlob(blob, annotatedFileName(file));
 
                 console.log('PDF saved successfully!');
             } catch (err) {
@@ -169,21 +529,33 @@ const PDFLayer = forwardRef<PDFLayerHandle, PDFLayerProps>(({
         }
     }));
 
-    function onDocumentLoadSuccess({ numPages }: { numPages: number }) {
-        setNumPages(numPages);
+    function onDocumentLoadSuccess(pdf: PDFDocumentProxy) {
+        setPdfDocument(pdf);
+        documentInfo.current = null;
+        pageItems.current = new Map();
+        searchRun.current++;
+        setOutline(null);
+        setSearchQuery('');
+        setSearchHits([]);
+        setCurrentHit(0);
+        setIsSearching(false);
+        setNumPages(pdf.numPages);
+        onPageCountChange?.(pdf.numPages);
+        setPageSizes({});
+        setRenderedPages(new Set());
         setError(null);
     }
 
+    function onPageLoadSuccess(page: PDFPageProxy) {
+        const { width, height } = page.getViewport({ scale: 1 });
+        setPageSizes(prev => ({ ...prev, [page.pageNumber]: { width, height } }));
+    }
+
     function onDocumentLoadError(err: Error) {
         console.error("PDF Load Error:", err);
         setError(err.message);
     }
 
-    const handleStrokesChange = (pageNumber: number, strokes: Stroke[]) => {
-        const newAnnotations = { ...annotations, [pageNumber]: strokes };
-        onAnnotationsChange(newAnnotations);
-    };
-
     if (!file) {
         return (
             <div className={styles.placeholder}>
@@ -202,48 +574,113 @@ const PDFLayer = forwardRef<PDFLayerHandle, PDFLayerProps>(({
     }
 
     return (
-        <div className={styles.container} ref={containerRef}>
-            <Document
-                file={file}
-                onLoadSuccess={onDocumentLoadSuccess}
-                onLoadError={onDocumentLoadError}
-                className={styles.document}
+        <>
+            <div
+                className={styles.container}
+                ref={containerRef}
+                onScroll={handleScroll}
+                onPointerDown={() => setSelection(null)}
+                onPointerUp={handleSelectionEnd}
+                onKeyUp={(e) => {
+                    if (e.shiftKey) handleSelectionEnd();
+                }}
             >
-                {/* Render all pages with annotation canvas overlays */}
-                {Array.from(new Array(numPages), (_, index) => {
-                    const pageNumber = index + 1;
-                    // Estimate page height based on A4 ratio (roughly 1.414)
-                    const pageHeight = pageWidth * 1.414;
-
-                    return (
-                        <div
-                            key={`page_container_${pageNumber}`}
-                            className={styles.pageWrapper}
-                            style={{ position: 'relative', marginBottom: '20px' }}
-                        >
-                            <Page
-                                pageNumber={pageNumber}
-                                className={styles.page}
-                                renderTextLayer={false}
-                                renderAnnotationLayer={false}
-                                width={pageWidth}
-                            />
-                            <PageCanvas
-                                ref={(el) => {
-                                    if (el) pageCanvasRefs.current.set(pageNumber, el);
-                                }}
-                                width={pageWidth}
-                                height={pageHeight}
-                                tool={tool}
-                                color={color}
-                                initialStrokes={annotations[pageNumber] || []}
-                                onStrokesChange={(strokes) => handleStrokesChange(pageNumber, strokes)}
-                            />
-                        </div>
-                    );
-                })}
-            </Document>
-        </div>
+                <Document
+                    file={file}
+                    onLoadSuccess={onDocumentLoadSuccess}
+                    onLoadError={onDocumentLoadError}
+                    className={styles.document}
+                >
+                    {/* Pages near the view with annotation canvas overlays, placeholders for the rest */}
+                    {Array.from(new Array(numPages), (_, index) => {
+                        const pageNumber = index + 1;
+                        const pageSize = pageSizeOf(pageNumber);
+                        const pageWidth = pageSize.width * scale;
+                        const pageHeight = pageSize.height * scale;
+                        const lastLine = selection?.pageNumber === pageNumber ? selection.rects[selection.rects.length - 1] : null;
+                        // A page with a selection stays rendered, as the selection lives in its text layer
+                        const isRendered = renderedPages.has(pageNumber) || lastLine !== null;
+
+                        return (
+                            <div
+                                key={`page_container_${pageNumber}`}
+                                className={`${styles.pageWrapper} ${isRendered ? '' : styles.pagePlaceholder}`}
+                                data-page={pageNumber}
+                                style={{ position: 'relative', marginBottom: '20px', width: pageWidth, height: pageHeight }}
+                            >
+                                {isRendered && (
+                                    <>
+                                        <Page
+                                            pageNumber={pageNumber}
+                                            className={styles.page}
+                                            renderTextLayer={true}
+                                            renderAnnotationLayer={false}
+                                            customTextRenderer={showSearchHits ? highlightSearch : undefined}
+                                            onRenderTextLayerSuccess={markCurrentHit}
+                                            scale={scale}
+                                            onLoadSuccess={onPageLoadSuccess}
+                                        />
+                                        <PageCanvas
+                                            ref={(el) => {
+                                                if (el) {
+                                                    pageCanvasRefs.current.set(pageNumber, el);
+                                                } else {
+                                                    pageCanvasRefs.current.delete(pageNumber);
+                                                }
+                                            }}
+                                            width={pageWidth}
+                                            height={pageHeight}
+                                            scale={scale}
+                                            tool={tool}
+                                            color={color}
+                                            annotations={annotations[pageNumber] ?? NO_ANNOTATIONS}
+                                            onCommand={(command) => onPageCommand(pageNumber, command)}
+                                            snapToShape={snapToShape}
+                                            penOnly={penOnly}
+                                        />
+                                    </>
+                                )}
+                                {lastLine && (
+                                    <div
+                                        className={styles.selectionMenu}
+                                        style={{ left: Math.min(lastLine.x * scale, pageWidth - 280), top: (lastLine.y + lastLine.height) * scale + 6 }}
+                                        // Keep the selection while a button is pressed
+                                        onPointerDown={(e) => e.stopPropagation()}
+                                        onPointerUp={(e) => e.stopPropagation()}
+                                        onMouseDown={(e) => e.preventDefault()}
+                                    >
+                                        {onAskAboutSelection && (
+                                            <button onClick={handleAskAboutSelection}>✨ Ask AI</button>
+                                        )}
+                                        <button onClick={() => handleMarkSelection('highlight')}>Highlight</button>
+                                        <button onClick={() => handleMarkSelection('underline')}>Underline</button>
+                                        <button onClick={handleCopySelection}>Copy</button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </Document>
+            </div>
+            {pdfDocument && onSidebarToggle && (
+                <PDFSidebar
+                    isOpen={sidebarOpen}
+                    onToggle={onSidebarToggle}
+                    pdf={pdfDocument}
+                    numPages={numPages}
+                    currentPage={visiblePage}
+                    annotatedPages={annotatedPages}
+                    outline={outline}
+                    onGoToPage={scrollToPage}
+                    searchQuery={searchQuery}
+                    searchHits={searchHits}
+                    currentHit={currentHit}
+                    isSearching={isSearching}
+                    onSearch={runSearch}
+                    onGoToHit={goToHit}
+                />
+            )}
+        </>
     );
 });
 
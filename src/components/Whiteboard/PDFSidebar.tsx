@@ -0,0 +1,277 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Thumbnail } from 'react-pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { OutlineEntry } from '../../utils/pdfContent';
+import type { SearchHit } from '../../utils/pdfSearch';
+import styles from './PDFSidebar.module.css';
+
+type SidebarTab = 'pages' | 'outline' | 'search';
+
+const THUMBNAIL_WIDTH = 120;
+
+// Pause in typing before the search runs
+const SEARCH_DELAY = 400;
+
+interface PDFSidebarProps {
+    isOpen: boolean;
+    onToggle: () => void;
+    pdf: PDFDocumentProxy;
+    numPages: number;
+    currentPage: number;
+    annotatedPages: Set<number>;
+    // null while the outline is still being read
+    outline: OutlineEntry[] | null;
+    onGoToPage: (pageNumber: number) => void;
+    searchQuery: string;
+    searchHits: SearchHit[];
+    currentHit: number;
+    isSearching: boolean;
+    onSearch: (query: string) => void;
+    onGoToHit: (index: number) => void;
+}
+
+// A page's thumbnail, rendered once it scrolls into the list's view
+const PageThumbnail: React.FC<{
+    pdf: PDFDocumentProxy;
+    pageNumber: number;
+    isCurrent: boolean;
+    isAnnotated: boolean;
+    onClick: (pageNumber: number) => void;
+}> = ({ pdf, pageNumber, isCurrent, isAnnotated, onClick }) => {
+    const [isVisible, setIsVisible] = useState(false);
+    const itemRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const item = itemRef.current;
+        if (!item || isVisible) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                setIsVisible(true);
+            }
+        }, { rootMargin: '200px 0px' });
+        observer.observe(item);
+        return () => observer.disconnect();
+    }, [isVisible]);
+
+    // Keep the page being read in view as the document scrolls
+    useEffect(() => {
+        if (isCurrent) {
+            itemRef.current?.scrollIntoView({ block: 'nearest' });
+        }
+    }, [isCurrent]);
+
+    return (
+        <div ref={itemRef} className={`${styles.thumbnail} ${isCurrent ? styles.current : ''}`}>
+            <div className={styles.thumbnailPage} style={{ minHeight: isVisible ? undefined : THUMBNAIL_WIDTH * 1.414 }}>
+                {isVisible && (
+                    <Thumbnail
+                        pdf={pdf}
+                        pageNumber={pageNumber}
+                        width={THUMBNAIL_WIDTH}
+                        onItemClick={() => onClick(pageNumber)}
+                    />
+                )}
+                {isAnnotated && (
+                    <span className={styles.annotatedBadge} title="This page has annotations">✎</span>
+                )}
+            </div>
+            <span className={styles.pageLabel}>{pageNumber}</span>
+        </div>
+    );
+};
+
+const PDFSidebar: React.FC<PDFSidebarProps> = ({
+    isOpen,
+    onToggle,
+    pdf,
+    numPages,
+    currentPage,
+    annotatedPages,
+    outline,
+    onGoToPage,
+    searchQuery,
+    searchHits,
+    currentHit,
+    isSearching,
+    onSearch,
+    onGoToHit
+}) => {
+    const [tab, setTab] = useState<SidebarTab>('pages');
+    const [query, setQuery] = useState(searchQuery);
+    const hitListRef = useRef<HTMLDivElement>(null);
+    const searchTimer = useRef<number | undefined>(undefined);
+
+    useEffect(() => () => window.clearTimeout(searchTimer.current), []);
+
+    useEffect(() => {
+        hitListRef.current
+            ?.querySelector(`[data-hit-index="${currentHit}"]`)
+            ?.scrollIntoView({ block: 'nearest' });
+    }, [currentHit, searchHits]);
+
+    const goToHit = (offset: number) => {
+        if (searchHits.length === 0) return;
+        onGoToHit((currentHit + offset + searchHits.length) % searchHits.length);
+    };
+
+    // Search as the user types, once they pause
+    const handleQueryChange = (value: string) => {
+        setQuery(value);
+        window.clearTimeout(searchTimer.current);
+        searchTimer.current = window.setTimeout(() => onSearch(value), SEARCH_DELAY);
+    };
+
+    // Enter searches right away, or moves on to the next hit once the results are in
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            window.clearTimeout(searchTimer.current);
+            if (query !== searchQuery) {
+                onSearch(query);
+            } else {
+                goToHit(e.shiftKey ? -1 : 1);
+            }
+        } else if (e.key === 'Escape') {
+            window.clearTimeout(searchTimer.current);
+            setQuery('');
+            onSearch('');
+        }
+    };
+
+    if (!isOpen) {
+        return (
+            <button
+                className={styles.toggleButton}
+                onClick={onToggle}
+                aria-label="Show Pages"
+                title="Pages, outline and search"
+            >
+                🔍
+            </button>
+        );
+    }
+
+    let searchStatus = '';
+    if (isSearching) {
+        searchStatus = 'Searching…';
+    } else if (searchQuery.trim()) {
+        searchStatus = searchHits.length === 0 ? 'No matches' : `${currentHit + 1} of ${searchHits.length}`;
+    }
+
+    return (
+        <div className={styles.sidebar}>
+            <div className={styles.header}>
+                <div className={styles.tabs} role="tablist">
+                    {(['pages', 'outline', 'search'] as const).map(name => (
+                        <button
+                            key={name}
+                            role="tab"
+                            aria-selected={tab === name}
+                            className={`${styles.tab} ${tab === name ? styles.activeTab : ''}`}
+                            onClick={() => setTab(name)}
+                        >
+                            {name === 'pages' ? 'Pages' : name === 'outline' ? 'Outline' : 'Search'}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    className={styles.iconButton}
+                    onClick={onToggle}
+                    aria-label="Hide Pages"
+                    title="Hide Pages"
+                >
+                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <line x1="18" y1="6" x2="6" y2="18"></line>
+                        <line x1="6" y1="6" x2="18" y2="18"></line>
+                    </svg>
+                </button>
+            </div>
+
+            {tab === 'pages' && (
+                <div className={styles.thumbnails}>
+                    {Array.from(new Array(numPages), (_, index) => (
+                        <PageThumbnail
+                            key={index + 1}
+                            pdf={pdf}
+                            pageNumber={index + 1}
+                            isCurrent={currentPage === index + 1}
+                            isAnnotated={annotatedPages.has(index + 1)}
+                            onClick={onGoToPage}
+                        />
+                    ))}
+                </div>
+            )}
+
+            {tab === 'outline' && (
+                <div className={styles.list}>
+                    {outline === null && <p className={styles.empty}>Reading the outline…</p>}
+                    {outline?.length === 0 && <p className={styles.empty}>This PDF has no outline.</p>}
+                    {outline?.map((entry, i) => (
+                        <button
+                            key={i}
+                            className={styles.outlineEntry}
+                            style={{ paddingLeft: `${0.75 + entry.depth * 0.9}rem` }}
+                            disabled={entry.pageNumber === null}
+                            onClick={() => entry.pageNumber !== null && onGoToPage(entry.pageNumber)}
+                        >
+                            <span className={styles.outlineTitle}>{entry.title || 'Untitled'}</span>
+                            {entry.pageNumber !== null && <span className={styles.outlinePage}>{entry.pageNumber}</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {tab === 'search' && (
+                <>
+                    <div className={styles.searchBar}>
+                        <input
+                            type="search"
+                            className={styles.searchInput}
+                            value={query}
+                            onChange={(e) => handleQueryChange(e.target.value)}
+                            onKeyDown={handleSearchKeyDown}
+                            placeholder="Search the document"
+                            autoFocus
+                        />
+                        <div className={styles.searchNav}>
+                            <span className={styles.searchStatus}>{searchStatus}</span>
+                            <button
+                                className={styles.iconButton}
+                                onClick={() => goToHit(-1)}
+                                disabled={searchHits.length === 0}
+                                aria-label="Previous match"
+                                title="Previous match (Shift+Enter)"
+                            >
+                                ↑
+                            </button>
+                            <button
+                                className={styles.iconButton}
+                                onClick={() => goToHit(1)}
+                                disabled={searchHits.length === 0}
+                                aria-label="Next match"
+                                title="Next match (Enter)"
+                            >
+                                ↓
+                            </button>
+                        </div>
+                    </div>
+                    <div className={styles.list} ref={hitListRef}>
+                        {searchHits.map((hit, i) => (
+                            <button
+                                key={`${hit.pageNumber}-${hit.itemIndex}-${hit.start}`}
+                                data-hit-index={i}
+                                className={`${styles.hit} ${i === currentHit ? styles.currentHit : ''}`}
+                                onClick={() => onGoToHit(i)}
+                            >
+                                <span className={styles.hitPage}>Page {hit.pageNumber}</span>
+                                <span className={styles.hitSnippet}>{hit.snippet}</span>
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PDFSidebar;
@@ -1,215 +1,327 @@
-import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
-import type { Stroke, Point } from '../../types/annotationTypes';
+import React, { useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { isEraserTool, isShapeTool, isTextSelectionTool, isTextTool, type Annotation, type Point, type Shape, type Stroke, type Tool } from '../../types/annotationTypes';
+import { applyStrokeStyle, drawAnnotations, drawEraserCursor, drawShape, drawStrokeSegment, prepareCanvas } from '../../utils/drawing';
+import { applyCamera, type Camera } from '../../utils/camera';
+import { constrainShapeEnd } from '../../utils/geometry';
+import { addItems, updateItem, type Command } from '../../utils/history';
+import { continueErasing, ERASER_RADIUS, finishErasing, startErasing, type EraseSession } from '../../utils/erasing';
+import { recognizeShape, SNAP_TO_SHAPE_LABEL } from '../../utils/shapeRecognition';
+import { useDevicePixelRatio } from '../../hooks/useDevicePixelRatio';
+import { useTextBoxEditor } from '../../hooks/useTextBoxEditor';
+import TextBoxLayer from './TextBoxLayer';
 
 export interface PageCanvasHandle {
-    getStrokes: () => Stroke[];
-    setStrokes: (strokes: Stroke[]) => void;
-    clear: () => void;
-    redraw: () => void;
     getDataURL: () => string;
+    getCanvas: () => HTMLCanvasElement | null;
 }
 
 interface PageCanvasProps {
+    // Size on screen, in CSS pixels
     width: number;
     height: number;
-    tool: 'pen' | 'eraser';
+    // CSS pixels per point; annotations are stored in points so they hold at any zoom
+    scale?: number;
+    tool: Tool;
     color?: string;
     lineWidth?: number;
-    initialStrokes?: Stroke[];
-    onStrokesChange?: (strokes: Stroke[]) => void;
+    annotations: Annotation[];
+    onCommand?: (command: Command<Annotation>) => void;
+    snapToShape?: boolean;
+    penOnly?: boolean;
+}
+
+interface ScrollGesture {
+    pointerId: number;
+    last: Point;
+}
+
+// The element that scrolls the document, so a finger can scroll it by hand over the page canvases
+function scrollParent(element: HTMLElement | null): HTMLElement | null {
+    for (let node = element?.parentElement; node; node = node.parentElement) {
+        const { overflowY } = getComputedStyle(node);
+        if ((overflowY === 'auto' || overflowY === 'scroll') && node.scrollHeight > node.clientHeight) {
+            return node;
+        }
+    }
+    return null;
 }
 
 const PageCanvas = forwardRef<PageCanvasHandle, PageCanvasProps>(({
     width,
     height,
+    scale = 1,
     tool,
     color = '#ffffff',
     lineWidth = 3,
-    initialStrokes = [],
-    onStrokesChange
+    annotations,
+    onCommand,
+    snapToShape = false,
+    penOnly = false
 }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [strokes, setStrokes] = useState<Stroke[]>(initialStrokes);
-    const [isDrawing, setIsDrawing] = useState(false);
-    const currentStroke = useRef<Point[]>([]);
+    const currentStroke = useRef<Point[] | null>(null);
+    const currentShape = useRef<Shape | null>(null);
+    const eraseSession = useRef<EraseSession | null>(null);
+    const drawingPointer = useRef<number | null>(null);
+    const scrollGesture = useRef<ScrollGesture | null>(null);
+    const dpr = useDevicePixelRatio();
+    const textEditor = useTextBoxEditor(annotations, onCommand, isTextTool(tool));
+    const hiddenTextId = textEditor.hiddenId;
+    // Text selection tools reach through to the PDF's text layer underneath
+    const passThrough = isTextSelectionTool(tool);
+    const camera: Camera = { x: 0, y: 0, zoom: scale };
+    // The eraser stays the same size on screen
+    const eraserRadius = ERASER_RADIUS / scale;
 
     useImperativeHandle(ref, () => ({
-        getStrokes: () => strokes,
-        setStrokes: (newStrokes: Stroke[]) => {
-            setStrokes(newStrokes);
-        },
-        clear: () => {
-            setStrokes([]);
-            const canvas = canvasRef.current;
-            if (canvas) {
-                const ctx = canvas.getContext('2d');
-                ctx?.clearRect(0, 0, canvas.width, canvas.height);
-            }
-        },
-        redraw: () => redrawCanvas(),
         getDataURL: () => {
             if (canvasRef.current) {
                 return canvasRef.current.toDataURL('image/png');
             }
             return '';
-        }
+        },
+        getCanvas: () => canvasRef.current
     }));
 
-    const redrawCanvas = () => {
+    // Draws the given items (the stored annotations unless an erase is in progress)
+    const redrawCanvas = useCallback((items: Annotation[] = annotations) => {
         const canvas = canvasRef.current;
         if (!canvas) return;
 
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
+        const ctx = prepareCanvas(canvas, width, height);
+        if (ctx) {
+            applyCamera(ctx, { x: 0, y: 0, zoom: scale });
+            drawAnnotations(ctx, items, hiddenTextId);
+        }
+    }, [width, height, scale, annotations, hiddenTextId]);
 
-        // Clear canvas
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
+    useEffect(() => {
+        redrawCanvas();
+    }, [redrawCanvas, dpr]);
 
-        // Redraw all strokes
-        strokes.forEach(stroke => {
-            if (stroke.points.length < 2) return;
+    // Page position of a pointer sample, with pressure for pens (mice and fingers report a constant)
+    const getCoordinates = (e: PointerEvent | React.PointerEvent): Point => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        const point = rect ? { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale } : { x: 0, y: 0 };
+        return e.pointerType === 'pen' ? { ...point, pressure: e.pressure } : point;
+    };
 
-            ctx.beginPath();
-            ctx.strokeStyle = stroke.tool === 'eraser' ? 'rgba(0,0,0,1)' : stroke.color;
-            ctx.lineWidth = stroke.tool === 'eraser' ? 20 : stroke.lineWidth;
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-            ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+    const startDrawing = (point: Point) => {
+        // Text tools place notes on click instead (see handleClick)
+        if (isTextTool(tool)) return;
 
-            ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-            for (let i = 1; i < stroke.points.length; i++) {
-                ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-            }
-            ctx.stroke();
-        });
+        if (isEraserTool(tool)) {
+            eraseSession.current = startErasing(tool, annotations, point, eraserRadius);
+            showErasing(eraseSession.current, point);
+        } else if (isShapeTool(tool)) {
+            currentShape.current = { type: 'shape', kind: tool, start: point, end: point, color, lineWidth };
+        } else {
+            currentStroke.current = [point];
+        }
+    };
 
-        // Reset composite operation
-        ctx.globalCompositeOperation = 'source-over';
+    // Redraws the page as it will look after the erase, with the eraser outline on top
+    const showErasing = (session: EraseSession, point: Point) => {
+        redrawCanvas(session.current);
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx) {
+            drawEraserCursor(ctx, point, eraserRadius);
+        }
     };
 
-    useEffect(() => {
-        const canvas = canvasRef.current;
-        if (canvas) {
-            const dpr = window.devicePixelRatio || 1;
-            canvas.width = width * dpr;
-            canvas.height = height * dpr;
+    // Takes every sample since the last move (coalesced events), so fast pen strokes stay smooth
+    const draw = (samples: Point[], constrain: boolean) => {
+        const latest = samples[samples.length - 1];
+
+        const session = eraseSession.current;
+        if (session && isEraserTool(tool)) {
+            samples.forEach(point => continueErasing(tool, session, point, eraserRadius));
+            showErasing(session, latest);
+            return;
+        }
 
-            const ctx = canvas.getContext('2d');
+        const shape = currentShape.current;
+        if (shape) {
+            shape.end = constrain ? constrainShapeEnd(shape.kind, shape.start, latest) : latest;
+
+            // Redraw the page with the shape being dragged out on top
+            redrawCanvas();
+            const ctx = canvasRef.current?.getContext('2d');
             if (ctx) {
-                ctx.scale(dpr, dpr);
+                drawShape(ctx, shape);
             }
+            return;
         }
-        redrawCanvas();
-    }, [width, height]);
 
-    // Sync with parent's initialStrokes when they change (e.g., when cleared)
-    useEffect(() => {
-        // Only sync if the parent's data differs significantly (e.g., was cleared)
-        if (initialStrokes.length === 0 && strokes.length > 0) {
-            setStrokes([]);
-        } else if (initialStrokes.length > 0 && strokes.length === 0) {
-            setStrokes(initialStrokes);
+        const points = currentStroke.current;
+        if (!points) return;
+
+        // Draw the current stroke in real-time
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx) {
+            applyStrokeStyle(ctx, { color, lineWidth });
+        }
+        samples.forEach(point => {
+            const prev = points[points.length - 1];
+            points.push(point);
+            if (ctx) {
+                drawStrokeSegment(ctx, lineWidth, prev, point);
+            }
+        });
+    };
+
+    const stopDrawing = () => {
+        const session = eraseSession.current;
+        eraseSession.current = null;
+        if (session && isEraserTool(tool)) {
+            const command = finishErasing(tool, session);
+            if (command) {
+                onCommand?.(command);
+            } else {
+                redrawCanvas();
+            }
+            return;
         }
-    }, [initialStrokes]);
 
-    useEffect(() => {
-        redrawCanvas();
-    }, [strokes]);
+        const shape = currentShape.current;
+        currentShape.current = null;
+        if (shape) {
+            // A click without a drag leaves nothing behind
+            if (Math.hypot(shape.end.x - shape.start.x, shape.end.y - shape.start.y) > 2) {
+                onCommand?.(addItems<Annotation>([shape]));
+            } else {
+                redrawCanvas();
+            }
+            return;
+        }
 
-    const getCoordinates = (e: React.MouseEvent | React.TouchEvent): Point => {
-        const canvas = canvasRef.current;
-        if (!canvas) return { x: 0, y: 0 };
+        const points = currentStroke.current;
+        currentStroke.current = null;
 
-        const rect = canvas.getBoundingClientRect();
-        let clientX, clientY;
+        if (points && points.length >= 2 && tool === 'pen') {
+            const stroke: Stroke = { type: 'stroke', points, color, lineWidth };
+            onCommand?.(addItems<Annotation>([stroke]));
 
-        if ('touches' in e) {
-            clientX = e.touches[0].clientX;
-            clientY = e.touches[0].clientY;
-        } else {
-            clientX = e.clientX;
-            clientY = e.clientY;
+            // Snapping is its own step, so a single undo restores the raw ink
+            const shape = snapToShape ? recognizeShape(stroke) : null;
+            if (shape) {
+                onCommand?.(updateItem<Annotation>(stroke, shape, SNAP_TO_SHAPE_LABEL));
+            }
         }
+    };
 
-        return {
-            x: clientX - rect.left,
-            y: clientY - rect.top
-        };
+    const cancelDrawing = () => {
+        drawingPointer.current = null;
+        eraseSession.current = null;
+        currentStroke.current = null;
+        currentShape.current = null;
+        redrawCanvas();
     };
 
-    const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
+    const handlePointerDown = (e: React.PointerEvent) => {
         e.stopPropagation();
-        setIsDrawing(true);
-        const point = getCoordinates(e);
-        currentStroke.current = [point];
+
+        if (e.pointerType === 'touch') {
+            // A resting palm must not disturb a pen that is already drawing
+            if (drawingPointer.current !== null) return;
+            // With "pen only", a finger scrolls the document instead of drawing
+            if (penOnly) {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                scrollGesture.current = { pointerId: e.pointerId, last: { x: e.clientX, y: e.clientY } };
+                return;
+            }
+        } else if (e.pointerType === 'pen') {
+            scrollGesture.current = null;
+        }
+
+        if (e.button !== 0 || drawingPointer.current !== null) return;
+
+        e.currentTarget.setPointerCapture(e.pointerId);
+        drawingPointer.current = e.pointerId;
+        startDrawing(getCoordinates(e));
     };
 
-    const draw = (e: React.MouseEvent | React.TouchEvent) => {
-        if (!isDrawing) return;
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const scroll = scrollGesture.current;
+        if (scroll && scroll.pointerId === e.pointerId) {
+            scrollParent(canvasRef.current)?.scrollBy(scroll.last.x - e.clientX, scroll.last.y - e.clientY);
+            scroll.last = { x: e.clientX, y: e.clientY };
+            return;
+        }
+
+        if (e.pointerId !== drawingPointer.current) return;
         e.stopPropagation();
+        const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+        const samples = coalesced.length > 0 ? coalesced : [e.nativeEvent];
+        draw(samples.map(getCoordinates), e.shiftKey);
+    };
 
-        const point = getCoordinates(e);
-        currentStroke.current.push(point);
+    const handlePointerUp = (e: React.PointerEvent) => {
+        if (scrollGesture.current?.pointerId === e.pointerId) {
+            scrollGesture.current = null;
+            return;
+        }
+        if (e.pointerId === drawingPointer.current) {
+            drawingPointer.current = null;
+            stopDrawing();
+        }
+    };
 
-        // Draw the current stroke in real-time
-        const canvas = canvasRef.current;
-        const ctx = canvas?.getContext('2d');
-        if (ctx && currentStroke.current.length >= 2) {
-            const points = currentStroke.current;
-            const prev = points[points.length - 2];
-            const curr = points[points.length - 1];
-
-            ctx.beginPath();
-            ctx.strokeStyle = tool === 'eraser' ? 'rgba(0,0,0,1)' : color;
-            ctx.lineWidth = tool === 'eraser' ? 20 : lineWidth;
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-            ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
-            ctx.moveTo(prev.x, prev.y);
-            ctx.lineTo(curr.x, curr.y);
-            ctx.stroke();
+    // The browser took the pointer over; the stroke it was drawing is dropped
+    const handlePointerCancel = (e: React.PointerEvent) => {
+        if (e.pointerId === drawingPointer.current) {
+            cancelDrawing();
         }
+        handlePointerUp(e);
     };
 
-    const stopDrawing = () => {
-        if (!isDrawing) return;
-        setIsDrawing(false);
-
-        if (currentStroke.current.length >= 2) {
-            const newStroke: Stroke = {
-                points: [...currentStroke.current],
-                color,
-                lineWidth,
-                tool
-            };
-            const newStrokes = [...strokes, newStroke];
-            setStrokes(newStrokes);
-            onStrokesChange?.(newStrokes);
-        }
-
-        currentStroke.current = [];
+    // With a text tool, a click on the page lets go of the selected note, or places a new one
+    const handleClick = (e: React.MouseEvent) => {
+        if (!isTextTool(tool) || e.button !== 0) return;
+        e.stopPropagation();
+
+        const rect = e.currentTarget.getBoundingClientRect();
+        const point = { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale };
+        if (textEditor.selection) {
+            textEditor.select(null);
+        } else {
+            textEditor.create(tool, point, color);
+        }
     };
 
     return (
-        <canvas
-            ref={canvasRef}
+        <div
             style={{
                 position: 'absolute',
                 top: 0,
                 left: 0,
                 width: `${width}px`,
                 height: `${height}px`,
-                pointerEvents: 'auto',
-                touchAction: 'none'
+                pointerEvents: passThrough ? 'none' : undefined
             }}
-            onMouseDown={startDrawing}
-            onMouseMove={draw}
-            onMouseUp={stopDrawing}
-            onMouseLeave={stopDrawing}
-            onTouchStart={startDrawing}
-            onTouchMove={draw}
-            onTouchEnd={stopDrawing}
-        />
+        >
+            <canvas
+                ref={canvasRef}
+                style={{
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                    width: `${width}px`,
+                    height: `${height}px`,
+                    pointerEvents: passThrough ? 'none' : 'auto',
+                    // Fingers scroll the page natively unless they draw; with "pen only" they scroll
+                    // through scrollGesture instead, so the browser can't pan under the pen
+                    touchAction: penOnly || !isTextTool(tool) ? 'none' : 'pan-x pan-y',
+                    cursor: isTextTool(tool) ? 'text' : undefined
+                }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerCancel}
+                onClick={handleClick}
+            />
+            <TextBoxLayer editor={textEditor} interactive={isTextTool(tool)} camera={camera} />
+        </div>
     );
 });
 
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef } from 'react';
+import type { Point, TextBox } from '../../types/annotationTypes';
+import { DEFAULT_CAMERA, type Camera } from '../../utils/camera';
+import { NOTE_TEXT_COLOR, TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT, TEXT_PADDING } from '../../utils/drawing';
+import { MIN_TEXT_BOX_SIZE, type TextBoxEditor } from '../../hooks/useTextBoxEditor';
+import styles from './TextBoxLayer.module.css';
+
+interface TextBoxLayerProps {
+    editor: TextBoxEditor;
+    // Boxes can only be picked, moved and resized while a text tool is active
+    interactive: boolean;
+    camera?: Camera;
+}
+
+interface BoxGesture {
+    mode: 'move' | 'resize';
+    start: Point;
+    box: TextBox;
+}
+
+const isTyping = (e: KeyboardEvent) =>
+    e.target instanceof HTMLElement && !!e.target.closest('input, textarea, [contenteditable="true"]');
+
+// HTML overlay for the text boxes and sticky notes of one surface. The canvas draws them
+// (so captures include them); this layer adds hit areas, handles and the text editor.
+const TextBoxLayer: React.FC<TextBoxLayerProps> = ({ editor, interactive, camera = DEFAULT_CAMERA }) => {
+    const gesture = useRef<BoxGesture | null>(null);
+    const { boxes, selection, draft } = editor;
+    const selectedBox = selection ? boxes.find(box => box.id === selection.id) ?? null : null;
+
+    // Delete or Backspace removes the selected box, Escape lets go of it
+    useEffect(() => {
+        if (!selectedBox || selection?.editing) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (isTyping(e)) return;
+            if (e.key === 'Delete' || e.key === 'Backspace') {
+                e.preventDefault();
+                editor.remove(selectedBox);
+            } else if (e.key === 'Escape') {
+                editor.select(null);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [editor, selectedBox, selection]);
+
+    if (!interactive) return null;
+
+    const startGesture = (e: React.PointerEvent, box: TextBox, mode: BoxGesture['mode']) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        gesture.current = { mode, start: { x: e.clientX, y: e.clientY }, box };
+        editor.select({ id: box.id, editing: false });
+    };
+
+    const moveGesture = (e: React.PointerEvent) => {
+        const active = gesture.current;
+        if (!active) return;
+
+        const dx = (e.clientX - active.start.x) / camera.zoom;
+        const dy = (e.clientY - active.start.y) / camera.zoom;
+        const { box } = active;
+
+        editor.setDraft(active.mode === 'move'
+            ? { ...box, x: box.x + dx, y: box.y + dy }
+            : {
+                ...box,
+                width: Math.max(MIN_TEXT_BOX_SIZE, box.width + dx),
+                height: Math.max(MIN_TEXT_BOX_SIZE, box.height + dy)
+            });
+    };
+
+    const endGesture = () => {
+        const active = gesture.current;
+        gesture.current = null;
+        if (!active) return;
+
+        if (draft && draft.id === active.box.id) {
+            editor.commit(active.box, draft);
+        }
+        editor.setDraft(null);
+    };
+
+    const finishEditing = (box: TextBox, text: string) => {
+        editor.select({ id: box.id, editing: false });
+        editor.commit(box, { ...box, text });
+    };
+
+    return (
+        <div className={styles.layer}>
+            {boxes.map(stored => {
+                const box = draft?.id === stored.id ? draft : stored;
+                const isSelected = selection?.id === box.id;
+                const isEditing = isSelected && selection?.editing === true;
+                // The canvas leaves this box out while it is moving or being edited, so draw it here
+                const showContent = isEditing || draft?.id === box.id;
+                const zoom = camera.zoom;
+
+                return (
+                    <div
+                        key={box.id}
+                        className={`${styles.box} ${isSelected ? styles.selected : ''} ${interactive ? styles.interactive : ''}`}
+                        style={{
+                            left: box.x * zoom + camera.x,
+                            top: box.y * zoom + camera.y,
+                            width: box.width * zoom,
+                            height: box.kind === 'note' || !isEditing ? box.height * zoom : undefined,
+                            minHeight: box.height * zoom,
+                            background: showContent && box.kind === 'note' ? box.color : undefined
+                        }}
+                        onPointerDown={(e) => startGesture(e, stored, 'move')}
+                        onPointerMove={moveGesture}
+                        onPointerUp={endGesture}
+                        onPointerCancel={endGesture}
+                        onDoubleClick={() => editor.select({ id: box.id, editing: true })}
+                    >
+                        {showContent && (
+                            <TextEditor
+                                key={isEditing ? 'editing' : 'static'}
+                                box={box}
+                                zoom={zoom}
+                                readOnly={!isEditing}
+                                onFinish={(text) => finishEditing(stored, text)}
+                            />
+                        )}
+                        {isSelected && !isEditing && (
+                            <div
+                                className={styles.resizeHandle}
+                                onPointerDown={(e) => startGesture(e, stored, 'resize')}
+                                onPointerMove={moveGesture}
+                                onPointerUp={endGesture}
+                                onPointerCancel={endGesture}
+                            />
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+interface TextEditorProps {
+    box: TextBox;
+    zoom: number;
+    readOnly: boolean;
+    onFinish: (text: string) => void;
+}
+
+// Styled to match drawTextBox, so text doesn't jump when editing starts or ends
+const TextEditor: React.FC<TextEditorProps> = ({ box, zoom, readOnly, onFinish }) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    // Plain text boxes grow with their text while typing
+    const autoSize = () => {
+        const textarea = textareaRef.current;
+        if (textarea && box.kind === 'text') {
+            textarea.style.height = 'auto';
+            textarea.style.height = `${textarea.scrollHeight}px`;
+        }
+    };
+
+    useEffect(() => {
+        autoSize();
+    });
+
+    // Start typing at the end of the existing text
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (textarea && !readOnly) {
+            textarea.focus();
+            textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+        }
+    }, [readOnly]);
+
+    return (
+        <textarea
+            ref={textareaRef}
+            className={styles.editor}
+            defaultValue={box.text}
+            readOnly={readOnly}
+            tabIndex={readOnly ? -1 : 0}
+            placeholder={readOnly ? undefined : box.kind === 'note' ? 'Note' : 'Type something'}
+            style={{
+                fontFamily: TEXT_FONT_FAMILY,
+                fontSize: box.fontSize * zoom,
+                lineHeight: TEXT_LINE_HEIGHT,
+                padding: TEXT_PADDING * zoom,
+                color: box.kind === 'note' ? NOTE_TEXT_COLOR : box.color,
+                pointerEvents: readOnly ? 'none' : 'auto'
+            }}
+            onInput={autoSize}
+            onPointerDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+                if (e.key === 'Escape') {
+                    e.currentTarget.blur();
+                }
+            }}
+            onBlur={(e) => {
+                if (!readOnly) onFinish(e.target.value);
+            }}
+        />
+    );
+};
+
+export default TextBoxLayer;
@@ -34,7 +34,8 @@ export const useAudioRecorder = () => {
             }
 
             mediaRecorder.onstop = () => {
-                const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+                // Safari records mp4, so keep whatever container the browser actually produced
+                const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
                 chunksRef.current = [];
                 resolve(blob);
             };
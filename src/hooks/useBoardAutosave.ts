@@ -0,0 +1,53 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { saveBoardContent, type BoardContent } from '../services/storage';
+
+const AUTOSAVE_DELAY = 800;
+
+interface PendingSave {
+    boardId: string;
+    content: BoardContent;
+}
+
+// Saves the board's content shortly after it stops changing. The returned flush writes
+// anything still pending right away, e.g. before switching to another board.
+export const useBoardAutosave = (boardId: string | null, content: BoardContent) => {
+    const pending = useRef<PendingSave | null>(null);
+    const lastBoardId = useRef<string | null>(null);
+
+    const flush = useCallback(async () => {
+        const save = pending.current;
+        pending.current = null;
+        if (!save) return;
+
+        try {
+            await saveBoardContent(save.boardId, save.content);
+        } catch (err) {
+            console.error('Autosave failed:', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!boardId) return;
+
+        // The content a board was just opened with is already saved
+        if (lastBoardId.current !== boardId) {
+            lastBoardId.current = boardId;
+            return;
+        }
+
+        pending.current = { boardId, content };
+        const timer = setTimeout(flush, AUTOSAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [boardId, content, flush]);
+
+    // Last chance to save when the tab is closed or hidden
+    useEffect(() => {
+        const handlePageHide = () => {
+            flush();
+        };
+        window.addEventListener('pagehide', handlePageHide);
+        return () => window.removeEventListener('pagehide', handlePageHide);
+    }, [flush]);
+
+    return flush;
+};
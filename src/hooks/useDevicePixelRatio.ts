@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+
+// Tracks window.devicePixelRatio, which changes with browser zoom or when the
+// window moves to a display with a different density
+export const useDevicePixelRatio = () => {
+    const [dpr, setDpr] = useState(() => window.devicePixelRatio || 1);
+
+    useEffect(() => {
+        const query = window.matchMedia(`(resolution: ${dpr}dppx)`);
+        const handleChange = () => setDpr(window.devicePixelRatio || 1);
+        query.addEventListener('change', handleChange);
+        return () => query.removeEventListener('change', handleChange);
+    }, [dpr]);
+
+    return dpr;
+};
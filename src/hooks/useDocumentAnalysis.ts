@@ -0,0 +1,113 @@
+import { useState, useRef, useCallback } from 'react';
+import { isAbortError } from '../services/providers';
+import { analyzeDocument, askDocument, type AnalysisProgress, type DocumentAnalysis, type DocumentExchange } from '../services/documentAnalysis';
+import type { PageText } from '../utils/pdfContent';
+
+// Reads every page's text, reporting how many pages are done
+export type ReadPages = (signal: AbortSignal, onProgress: (done: number, total: number) => void) => Promise<PageText[]>;
+
+// Runs the analysis of the open PDF and questions about it, one at a time. Cancelling stops the
+// running step and keeps what finished before it; reset forgets everything, for a new document.
+export const useDocumentAnalysis = () => {
+    const [analysis, setAnalysis] = useState<DocumentAnalysis | null>(null);
+    const [exchanges, setExchanges] = useState<DocumentExchange[]>([]);
+    const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+    const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+    const [streamingAnswer, setStreamingAnswer] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+    // The document's text, read once and kept for later questions
+    const pagesRef = useRef<PageText[] | null>(null);
+
+    const begin = (): AbortController => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsBusy(true);
+        setError(null);
+        return controller;
+    };
+
+    const end = useCallback((controller: AbortController) => {
+        if (controllerRef.current !== controller) return;
+        controllerRef.current = null;
+        setIsBusy(false);
+        setProgress(null);
+        setPendingQuestion(null);
+        setStreamingAnswer('');
+    }, []);
+
+    const fail = (err: unknown) => {
+        if (isAbortError(err)) return;
+        console.error('Document analysis failed:', err);
+        setError(err instanceof Error ? err.message : String(err));
+    };
+
+    // Only a complete reading is kept; one that came back empty or was cut short is read again next time
+    const readPages = async (read: ReadPages, signal: AbortSignal): Promise<PageText[]> => {
+        if (pagesRef.current) return pagesRef.current;
+
+        let pageCount = 0;
+        const pages = await read(signal, (done, total) => {
+            pageCount = total;
+            setProgress({ stage: 'reading', done, total });
+        });
+        if (!signal.aborted && pages.length > 0 && pages.length === pageCount) {
+            pagesRef.current = pages;
+        }
+        return pages;
+    };
+
+    const analyze = async (read: ReadPages, title: string) => {
+        const controller = begin();
+        try {
+            const pages = await readPages(read, controller.signal);
+            const result = await analyzeDocument(pages, title, { signal: controller.signal, onProgress: setProgress });
+            if (!controller.signal.aborted) {
+                setAnalysis(result);
+            }
+        } catch (err) {
+            fail(err);
+        } finally {
+            end(controller);
+        }
+    };
+
+    const ask = async (read: ReadPages, question: string) => {
+        const controller = begin();
+        setPendingQuestion(question);
+        try {
+            const pages = await readPages(read, controller.signal);
+            const answer = await askDocument(question, pages, analysis, exchanges, {
+                signal: controller.signal,
+                onPartial: setStreamingAnswer
+            });
+            if (!controller.signal.aborted) {
+                setExchanges(prev => [...prev, { question, answer: answer || 'No answer was returned.' }]);
+            }
+        } catch (err) {
+            fail(err);
+        } finally {
+            end(controller);
+        }
+    };
+
+    const cancel = useCallback(() => {
+        const controller = controllerRef.current;
+        controller?.abort();
+        if (controller) {
+            end(controller);
+        }
+    }, [end]);
+
+    const reset = useCallback(() => {
+        cancel();
+        pagesRef.current = null;
+        setAnalysis(null);
+        setExchanges([]);
+        setError(null);
+    }, [cancel]);
+
+    return { analysis, exchanges, progress, pendingQuestion, streamingAnswer, error, isBusy, analyze, ask, cancel, reset };
+};
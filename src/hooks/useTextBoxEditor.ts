@@ -0,0 +1,94 @@
+import { useState, useMemo } from 'react';
+import type { Annotation, Point, TextBox, TextKind } from '../types/annotationTypes';
+import { measureTextBoxHeight } from '../utils/drawing';
+import { addItems, removeItems, updateItem, type Command } from '../utils/history';
+
+export interface TextSelection {
+    id: string;
+    editing: boolean;
+}
+
+const NEW_BOX: Record<TextKind, Pick<TextBox, 'width' | 'height' | 'fontSize'>> = {
+    text: { width: 240, height: 42, fontSize: 20 },
+    note: { width: 180, height: 180, fontSize: 16 }
+};
+
+export const MIN_TEXT_BOX_SIZE = 40;
+
+// Selection, editing and placement of text boxes and sticky notes on one surface.
+// A box placed with the text tool stays pending until it gets some text, so an empty
+// click leaves no trace in the undo history.
+export const useTextBoxEditor = (
+    annotations: Annotation[],
+    onCommand: ((command: Command<Annotation>) => void) | undefined,
+    enabled: boolean
+) => {
+    const [pending, setPending] = useState<TextBox | null>(null);
+    const [selection, setSelection] = useState<TextSelection | null>(null);
+    // Live copy of the box being moved or resized
+    const [draft, setDraft] = useState<TextBox | null>(null);
+
+    const boxes = useMemo(() => {
+        const placed = annotations.filter((annotation): annotation is TextBox => annotation.type === 'text');
+        return pending ? [...placed, pending] : placed;
+    }, [annotations, pending]);
+
+    // Switching to another tool hides the selection without forgetting it
+    const activeSelection = enabled && selection && boxes.some(box => box.id === selection.id) ? selection : null;
+
+    // The overlay shows this box while it is edited or dragged, so the canvas leaves it out
+    const hiddenId = draft?.id ?? (activeSelection?.editing ? activeSelection.id : null);
+
+    const create = (kind: TextKind, point: Point, color: string) => {
+        const box: TextBox = { type: 'text', kind, id: crypto.randomUUID(), x: point.x, y: point.y, text: '', color, ...NEW_BOX[kind] };
+        setPending(box);
+        setSelection({ id: box.id, editing: true });
+    };
+
+    // Plain text boxes grow to fit their text; notes keep the size the user gave them
+    const fit = (box: TextBox): TextBox =>
+        box.kind === 'text' ? { ...box, height: Math.max(MIN_TEXT_BOX_SIZE, measureTextBoxHeight(box)) } : box;
+
+    const remove = (box: TextBox) => {
+        setSelection(null);
+        if (box === pending) {
+            setPending(null);
+        } else {
+            onCommand?.(removeItems<Annotation>(annotations, [box], box.kind === 'note' ? 'Delete note' : 'Delete text'));
+        }
+    };
+
+    const commit = (before: TextBox, after: TextBox) => {
+        const isEmpty = !after.text.trim();
+
+        if (before === pending) {
+            setPending(null);
+            if (isEmpty) {
+                setSelection(null);
+            } else {
+                onCommand?.(addItems<Annotation>([fit(after)], after.kind === 'note' ? 'Add note' : 'Add text'));
+            }
+            return;
+        }
+
+        if (isEmpty) {
+            remove(before);
+        } else if (after.text !== before.text || after.x !== before.x || after.y !== before.y || after.width !== before.width || after.height !== before.height) {
+            onCommand?.(updateItem<Annotation>(before, fit(after), 'Edit text'));
+        }
+    };
+
+    return {
+        boxes,
+        selection: activeSelection,
+        select: setSelection,
+        draft,
+        setDraft,
+        hiddenId,
+        create,
+        commit,
+        remove
+    };
+};
+
+export type TextBoxEditor = ReturnType<typeof useTextBoxEditor>;
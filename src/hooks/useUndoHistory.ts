@@ -0,0 +1,85 @@
+import { useState, useRef, useCallback } from 'react';
+import type { Command, HistoryScope } from '../utils/history';
+
+interface Stacks<T> {
+    undo: Command<T>[];
+    redo: Command<T>[];
+}
+
+interface Availability {
+    [scope: string]: { canUndo: boolean; canRedo: boolean };
+}
+
+const MAX_HISTORY = 100;
+
+// Command-based undo/redo with one stack pair per scope. The caller owns the data and
+// supplies applyToScope, which runs a list transform against that scope's items.
+export const useUndoHistory = <T>(applyToScope: (scope: HistoryScope, update: (items: T[]) => T[]) => void) => {
+    const stacksRef = useRef(new Map<HistoryScope, Stacks<T>>());
+    const [availability, setAvailability] = useState<Availability>({});
+
+    const getStacks = (scope: HistoryScope): Stacks<T> => {
+        let stacks = stacksRef.current.get(scope);
+        if (!stacks) {
+            stacks = { undo: [], redo: [] };
+            stacksRef.current.set(scope, stacks);
+        }
+        return stacks;
+    };
+
+    const publish = (scope: HistoryScope) => {
+        const stacks = getStacks(scope);
+        setAvailability(prev => ({
+            ...prev,
+            [scope]: { canUndo: stacks.undo.length > 0, canRedo: stacks.redo.length > 0 }
+        }));
+    };
+
+    const execute = (scope: HistoryScope, command: Command<T>) => {
+        const stacks = getStacks(scope);
+        applyToScope(scope, command.apply);
+        stacks.undo.push(command);
+        if (stacks.undo.length > MAX_HISTORY) {
+            stacks.undo.shift();
+        }
+        stacks.redo = [];
+        publish(scope);
+    };
+
+    const undo = (scope: HistoryScope) => {
+        const stacks = getStacks(scope);
+        const command = stacks.undo.pop();
+        if (!command) return;
+        applyToScope(scope, command.revert);
+        stacks.redo.push(command);
+        publish(scope);
+    };
+
+    const redo = (scope: HistoryScope) => {
+        const stacks = getStacks(scope);
+        const command = stacks.redo.pop();
+        if (!command) return;
+        applyToScope(scope, command.apply);
+        stacks.undo.push(command);
+        publish(scope);
+    };
+
+    // Drops the history of every scope matching the filter (all scopes by default)
+    const clear = useCallback((filter: (scope: HistoryScope) => boolean = () => true) => {
+        const cleared: HistoryScope[] = [];
+        stacksRef.current.forEach((_, scope) => {
+            if (filter(scope)) cleared.push(scope);
+        });
+        cleared.forEach(scope => stacksRef.current.delete(scope));
+        setAvailability(prev => {
+            const next = { ...prev };
+            cleared.forEach(scope => delete next[scope]);
+            return next;
+        });
+    }, []);
+
+    const canUndo = (scope: HistoryScope) => availability[scope]?.canUndo ?? false;
+    const canRedo = (scope: HistoryScope) => availability[scope]?.canRedo ?? false;
+
+    return { execute, undo, redo, clear, canUndo, canRedo };
+};
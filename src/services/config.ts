@@ -0,0 +1,104 @@
+// AI provider configuration with localStorage-based API key management
+
+// The key predates multi-provider support; keeping it means existing Azure setups still load
+const STORAGE_KEY = 'azure_openai_config';
+
+export type ProviderId = 'azure' | 'openai' | 'local';
+
+// Per-provider labels and requirements, used by the settings form and validation
+export interface ProviderInfo {
+    label: string;
+    description: string;
+    endpointPlaceholder: string;
+    modelLabel: string;
+    modelPlaceholder: string;
+    requiresApiKey: boolean;
+}
+
+export const PROVIDER_INFO: Record<ProviderId, ProviderInfo> = {
+    azure: {
+        label: 'Azure OpenAI',
+        description: 'An Azure OpenAI resource with a deployed vision model.',
+        endpointPlaceholder: 'https://your-resource.openai.azure.com',
+        modelLabel: 'Deployment Name',
+        modelPlaceholder: 'gpt-4o',
+        requiresApiKey: true,
+    },
+    openai: {
+        label: 'OpenAI-compatible',
+        description: 'The OpenAI API or any service exposing /v1/chat/completions.',
+        endpointPlaceholder: 'https://api.openai.com/v1',
+        modelLabel: 'Model',
+        modelPlaceholder: 'gpt-4o',
+        requiresApiKey: true,
+    },
+    local: {
+        label: 'Local server',
+        description: 'Ollama, LM Studio or another server running on your machine.',
+        endpointPlaceholder: 'http://localhost:11434/v1',
+        modelLabel: 'Model',
+        modelPlaceholder: 'llava',
+        requiresApiKey: false,
+    },
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_INFO) as ProviderId[];
+
+export interface AIConfig {
+    provider: ProviderId;
+    endpoint: string;
+    apiKey: string;
+    model: string;
+    speechKey?: string;
+    speechRegion?: string;
+    // Whisper model (or Azure deployment) for voice input
+    transcriptionModel?: string;
+    // Optional OpenAI-compatible server used for transcription instead of the chat provider
+    transcriptionEndpoint?: string;
+}
+
+// Configs saved before provider support were Azure-only and named the model `deploymentName`
+type StoredConfig = Partial<AIConfig> & { deploymentName?: string };
+
+export function getConfig(): AIConfig | null {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    try {
+        const parsed: StoredConfig = JSON.parse(stored);
+        return {
+            // Anything else (e.g. from a newer version) would leave no way to reach the API
+            provider: PROVIDER_IDS.includes(parsed.provider as ProviderId) ? parsed.provider as ProviderId : 'azure',
+            endpoint: parsed.endpoint ?? '',
+            apiKey: parsed.apiKey ?? '',
+            model: parsed.model ?? parsed.deploymentName ?? '',
+            speechKey: parsed.speechKey,
+            speechRegion: parsed.speechRegion,
+            transcriptionModel: parsed.transcriptionModel,
+            transcriptionEndpoint: parsed.transcriptionEndpoint,
+        };
+    } catch {
+        return null;
+    }
+}
+
+export function saveConfig(config: AIConfig): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+export function clearConfig(): void {
+    localStorage.removeItem(STORAGE_KEY);
+}
+
+export function hasRequiredFields(config: Pick<AIConfig, 'provider' | 'endpoint' | 'apiKey' | 'model'>): boolean {
+    const info = PROVIDER_INFO[config.provider];
+    return !!(config.endpoint && config.model && (config.apiKey || !info.requiresApiKey));
+}
+
+export function isConfigured(): boolean {
+    const config = getConfig();
+    return !!config && hasRequiredFields(config);
+}
+
+export function isVoiceInputConfigured(): boolean {
+    return !!getConfig()?.transcriptionModel;
+}
@@ -0,0 +1,262 @@
+// Whole-document analysis of a PDF. The pages' text is split into chunks that fit a request,
+// each chunk is summarized on its own (map) and the summaries are combined into one (reduce).
+// Questions are then answered from the summary and the pages that best match the question,
+// with the pages cited as [p. N] so the answer can link back to them.
+
+import { getActiveProvider, type ChatMessage } from './providers';
+import { formatDocumentText, type PageText } from '../utils/pdfContent';
+
+export interface DocumentChunk {
+    firstPage: number;
+    lastPage: number;
+    text: string;
+}
+
+export interface ChunkSummary {
+    firstPage: number;
+    lastPage: number;
+    summary: string;
+}
+
+export interface DocumentAnalysis {
+    summary: string;
+    chunks: ChunkSummary[];
+}
+
+export type AnalysisProgress =
+    | { stage: 'reading'; done: number; total: number }
+    | { stage: 'summarizing'; done: number; total: number }
+    | { stage: 'combining' };
+
+export interface DocumentExchange {
+    question: string;
+    answer: string;
+}
+
+// Characters of page text per summarized chunk, about 3000 tokens
+const CHUNK_SIZE = 12000;
+// Summaries combined in one request; more than this are combined in rounds
+const REDUCE_SIZE = 16000;
+// Page text sent with a question, next to the summary
+const ANSWER_TEXT_BUDGET = 14000;
+
+const SUMMARY_TOKENS = 700;
+const FINAL_SUMMARY_TOKENS = 1500;
+const ANSWER_TOKENS = 1000;
+
+const CITATION_RULE = 'Cite the page each point comes from as [p. N] (or [pp. N–M] for a span), using the page markers in the text.';
+
+const MAP_PROMPT = 'You summarize one part of a longer document. Be faithful to the text and keep names, numbers and dates exact. '
+    + CITATION_RULE;
+
+const REDUCE_PROMPT = 'You combine summaries of consecutive parts of a document into one. Keep the [p. N] citations of the points you keep, '
+    + 'keep numbers exact and drop repetition.';
+
+const ANSWER_PROMPT = 'You answer questions about a document from its summary and the excerpts of its pages provided. '
+    + 'Use only that material; if it does not answer the question, say so. ' + CITATION_RULE;
+
+const pageMarker = (pageNumber: number) => `[Page ${pageNumber}]`;
+
+const pageSpan = (first: number, last: number) => (first === last ? `page ${first}` : `pages ${first}–${last}`);
+
+// Splits text at line breaks (or anywhere, for a very long line) into pieces of at most `size`
+function splitText(text: string, size: number): string[] {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > size) {
+        const cut = rest.lastIndexOf('\n', size);
+        const end = cut > size / 2 ? cut : size;
+        pieces.push(rest.slice(0, end));
+        rest = rest.slice(end).replace(/^\n/, '');
+    }
+    pieces.push(rest);
+    return pieces;
+}
+
+// Consecutive pages grouped into chunks of about `size` characters, each page marked with its
+// number. A page longer than a chunk is split over several.
+export function chunkPages(pages: PageText[], size = CHUNK_SIZE): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+    let current: DocumentChunk | null = null;
+
+    pages.filter(page => page.text.trim()).forEach(page => {
+        const marker = pageMarker(page.pageNumber);
+        splitText(page.text, size - marker.length - 1).forEach(piece => {
+            const text = `${marker}\n${piece}`;
+            if (current && current.text.length + text.length + 2 <= size) {
+                current.text += `\n\n${text}`;
+                current.lastPage = page.pageNumber;
+            } else {
+                current = { firstPage: page.pageNumber, lastPage: page.pageNumber, text };
+                chunks.push(current);
+            }
+        });
+    });
+    return chunks;
+}
+
+async function summarizeChunk(chunk: DocumentChunk, title: string, signal?: AbortSignal): Promise<string> {
+    const messages: ChatMessage[] = [
+        { role: 'system', content: MAP_PROMPT },
+        {
+            role: 'user',
+            content: `${pageSpan(chunk.firstPage, chunk.lastPage)} of "${title}":\n\n${chunk.text}\n\n`
+                + 'Summarize the key points, facts, figures, obligations and risks in this part as a concise bulleted list.'
+        }
+    ];
+    return getActiveProvider().complete(messages, { signal, maxTokens: SUMMARY_TOKENS });
+}
+
+async function combineSummaries(summaries: ChunkSummary[], title: string, pageCount: number, final: boolean, signal?: AbortSignal): Promise<string> {
+    const parts = summaries.map(part => `Summary of ${pageSpan(part.firstPage, part.lastPage)}:\n${part.summary}`);
+    const request = final
+        ? 'Write one summary of the whole document: a short overview paragraph, then the key points, then risks and open questions, as Markdown with bulleted lists.'
+        : 'Combine these into one bulleted summary of the pages they cover.';
+    const messages: ChatMessage[] = [
+        { role: 'system', content: REDUCE_PROMPT },
+        { role: 'user', content: `Summaries of consecutive parts of "${title}" (${pageCount} pages):\n\n${parts.join('\n\n')}\n\n${request}` }
+    ];
+    return getActiveProvider().complete(messages, { signal, maxTokens: final ? FINAL_SUMMARY_TOKENS : SUMMARY_TOKENS });
+}
+
+// Groups neighbouring summaries that fit one combining request together
+function groupSummaries(summaries: ChunkSummary[]): ChunkSummary[][] {
+    const groups: ChunkSummary[][] = [];
+    let size = 0;
+    summaries.forEach(summary => {
+        const group = groups[groups.length - 1];
+        if (group && size + summary.summary.length <= REDUCE_SIZE) {
+            group.push(summary);
+            size += summary.summary.length;
+        } else {
+            groups.push([summary]);
+            size = summary.summary.length;
+        }
+    });
+    return groups;
+}
+
+// Summarizes the whole document. Stopping the signal rejects with an AbortError, like fetch.
+export async function analyzeDocument(
+    pages: PageText[],
+    title: string,
+    { signal, onProgress }: { signal?: AbortSignal; onProgress?: (progress: AnalysisProgress) => void } = {}
+): Promise<DocumentAnalysis> {
+    const chunks = chunkPages(pages);
+    if (chunks.length === 0) {
+        throw new Error('This PDF has no extractable text to analyze. It may be a scanned document.');
+    }
+
+    // One chunk at a time keeps within providers' rate limits and makes progress steady
+    const summaries: ChunkSummary[] = [];
+    for (const chunk of chunks) {
+        onProgress?.({ stage: 'summarizing', done: summaries.length, total: chunks.length });
+        const summary = await summarizeChunk(chunk, title, signal);
+        summaries.push({ firstPage: chunk.firstPage, lastPage: chunk.lastPage, summary });
+    }
+
+    onProgress?.({ stage: 'combining' });
+    // Each round combines neighbours, until what is left fits the final request
+    let level = summaries;
+    let groups = groupSummaries(level);
+    while (groups.length > 1 && groups.length < level.length) {
+        const next: ChunkSummary[] = [];
+        for (const group of groups) {
+            const summary = group.length === 1 ? group[0].summary : await combineSummaries(group, title, pages.length, false, signal);
+            next.push({ firstPage: group[0].firstPage, lastPage: group[group.length - 1].lastPage, summary });
+        }
+        level = next;
+        groups = groupSummaries(level);
+    }
+    const summary = await combineSummaries(level, title, pages.length, true, signal);
+
+    return { summary, chunks: summaries };
+}
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'was', 'one', 'our', 'has', 'how', 'what',
+    'when', 'where', 'which', 'who', 'why', 'with', 'this', 'that', 'from', 'they', 'them', 'their', 'there', 'does',
+    'about', 'into', 'than', 'then', 'these', 'those', 'would', 'should', 'could', 'document', 'page', 'pages'
+]);
+
+const termsOf = (text: string) =>
+    (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []).filter(term => !STOP_WORDS.has(term));
+
+// Pages ranked by how often they mention the question's terms, rarer terms counting for more
+function relevantPages(question: string, pages: PageText[]): PageText[] {
+    const terms = [...new Set(termsOf(question))];
+    if (terms.length === 0) return [];
+
+    const pageTerms = pages.map(page => termsOf(page.text));
+    const weights = terms.map(term => {
+        const pagesWithTerm = pageTerms.filter(words => words.includes(term)).length;
+        return pagesWithTerm === 0 ? 0 : Math.log(1 + pages.length / pagesWithTerm);
+    });
+
+    return pages
+        .map((page, i) => ({
+            page,
+            score: terms.reduce((sum, term, t) => sum + weights[t] * pageTerms[i].filter(word => word === term).length, 0)
+        }))
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(entry => entry.page);
+}
+
+// Answers a question about the analyzed document, streaming the answer as it arrives
+export async function askDocument(
+    question: string,
+    pages: PageText[],
+    analysis: DocumentAnalysis | null,
+    history: DocumentExchange[],
+    { signal, onPartial }: { signal?: AbortSignal; onPartial?: (text: string) => void } = {}
+): Promise<string> {
+    // As many of the best matching pages as fit, in document order
+    const excerpts: PageText[] = [];
+    let size = 0;
+    for (const page of relevantPages(question, pages)) {
+        if (size + page.text.length > ANSWER_TEXT_BUDGET && excerpts.length > 0) break;
+        excerpts.push(page);
+        size += page.text.length;
+    }
+    excerpts.sort((a, b) => a.pageNumber - b.pageNumber);
+
+    const material = [
+        analysis ? `Summary of the document:\n${analysis.summary}` : '',
+        excerpts.length > 0
+            ? formatDocumentText(null, excerpts, ANSWER_TEXT_BUDGET)
+            : 'No page matched the question\'s wording; answer from the summary.'
+    ].filter(Boolean).join('\n\n');
+
+    const messages: ChatMessage[] = [
+        { role: 'system', content: ANSWER_PROMPT },
+        ...history.flatMap((exchange): ChatMessage[] => [
+            { role: 'user', content: exchange.question },
+            { role: 'assistant', content: exchange.answer }
+        ]),
+        { role: 'user', content: `${material}\n\nQuestion: ${question}` }
+    ];
+    return getActiveProvider().complete(messages, { signal, onPartial, maxTokens: ANSWER_TOKENS });
+}
+
+// Page citations such as "[p. 4]", "[pp. 4–6]" or "[p. 4, 9]"
+const CITATION_PATTERN = /\[(?:pp?|pages?)\.?\s*(\d+(?:\s*[–-]\s*\d+)?(?:\s*,\s*\d+(?:\s*[–-]\s*\d+)?)*)\]/gi;
+
+// The href a citation links to, and the page it names
+export const citationHref = (pageNumber: number) => `#page-${pageNumber}`;
+
+export function citedPage(href: string | undefined): number | null {
+    const match = href?.match(/^#page-(\d+)$/);
+    return match ? Number(match[1]) : null;
+}
+
+// Turns page citations into Markdown links to the pages; a span links to its first page
+export function linkCitations(markdown: string): string {
+    return markdown.replace(CITATION_PATTERN, (_, list: string) =>
+        list.split(',').map(part => {
+            const label = part.trim().replace(/\s*[–-]\s*/, '–');
+            const first = Number(label.split('–')[0]);
+            return `[${label.includes('–') ? 'pp.' : 'p.'} ${label}](${citationHref(first)})`;
+        }).join(', ')
+    );
+}
@@ -0,0 +1,326 @@
+// Chat providers. Azure OpenAI, OpenAI-compatible APIs and local servers (Ollama, LM Studio)
+// all speak the chat/completions protocol; they differ in URL layout, auth and token-limit field.
+
+import { getConfig, hasRequiredFields, PROVIDER_INFO, type AIConfig, type ProviderId } from './config';
+
+export interface ChatMessage {
+    role: 'user' | 'assistant' | 'system';
+    content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+}
+
+// Plain text of a message, without any attached images
+export function getMessageText(message: ChatMessage): string {
+    if (typeof message.content === 'string') return message.content;
+    return message.content
+        .filter(part => part.type === 'text' && part.text)
+        .map(part => part.text)
+        .join('\n');
+}
+
+// Image URLs (usually data URLs of board captures) attached to a message
+export function getMessageImages(message: ChatMessage): string[] {
+    if (typeof message.content === 'string') return [];
+    return message.content
+        .filter(part => part.type === 'image_url' && part.image_url)
+        .map(part => part.image_url!.url);
+}
+
+export interface AnalysisResult {
+    response: string;
+    newMessage: ChatMessage;
+    assistantMessage: ChatMessage;
+}
+
+export interface ConnectionResult {
+    success: boolean;
+    message: string;
+}
+
+export interface AnalyzeOptions {
+    // When set, the reply is streamed and this is called with the text received so far
+    onPartial?: (text: string) => void;
+    signal?: AbortSignal;
+    // Text describing the current capture (e.g. the board's notes). Sent with this request only,
+    // since every request captures the board afresh.
+    context?: string;
+    // Text content of what was captured (e.g. a PDF page's text), sent in the user message next to
+    // the image. Left out of the returned newMessage so the history doesn't grow by whole pages.
+    attachedText?: string;
+    // Longest reply allowed, in tokens, when the usual limit is too short (e.g. for a drawing)
+    maxTokens?: number;
+}
+
+// True for the rejection fetch (and stream reads) produce when their AbortSignal fires
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export interface CompleteOptions {
+    onPartial?: (text: string) => void;
+    signal?: AbortSignal;
+    maxTokens?: number;
+}
+
+export interface ChatProvider {
+    readonly id: ProviderId;
+    // Takes one image, or several (e.g. a range of PDF pages) sent in order in the same message
+    analyze: (imageData: string | string[], prompt: string, conversationHistory: ChatMessage[], options?: AnalyzeOptions) => Promise<AnalysisResult>;
+    // A plain completion of the given messages, for work outside the conversation (e.g. summarizing a document)
+    complete: (messages: ChatMessage[], options?: CompleteOptions) => Promise<string>;
+    testConnection: () => Promise<ConnectionResult>;
+    // Speech-to-text for a recorded clip via a Whisper-style /audio/transcriptions endpoint
+    transcribe: (audio: Blob, signal?: AbortSignal) => Promise<string>;
+}
+
+interface ChatPayload {
+    messages: ChatMessage[];
+    maxTokens: number;
+    stream?: boolean;
+    signal?: AbortSignal;
+}
+
+// How a provider addresses the shared OpenAI-style API surface
+interface ProviderTransport {
+    authHeaders: (config: AIConfig) => Record<string, string>;
+    chatUrl: (config: AIConfig) => string;
+    chatBody: (config: AIConfig, payload: ChatPayload) => Record<string, unknown>;
+    transcriptionUrl: (config: AIConfig, model: string) => string;
+}
+
+const AZURE_API_VERSION = '2024-02-15-preview';
+const AZURE_TRANSCRIPTION_API_VERSION = '2024-06-01';
+
+const SYSTEM_PROMPT = 'You are a helpful AI assistant that analyzes images and provides creative insights. Be concise but thorough.';
+
+const trimEndpoint = (endpoint: string) => endpoint.trim().replace(/\/+$/, '');
+
+const bearerAuth = (config: AIConfig): Record<string, string> =>
+    config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+
+const transports: Record<ProviderId, ProviderTransport> = {
+    azure: {
+        authHeaders: (config) => ({ 'api-key': config.apiKey }),
+        chatUrl: (config) => `${trimEndpoint(config.endpoint)}/openai/deployments/${config.model}/chat/completions?api-version=${AZURE_API_VERSION}`,
+        chatBody: (_config, { messages, maxTokens, stream }) => ({ messages, max_completion_tokens: maxTokens, ...(stream ? { stream } : {}) }),
+        transcriptionUrl: (config, model) => `${trimEndpoint(config.endpoint)}/openai/deployments/${model}/audio/transcriptions?api-version=${AZURE_TRANSCRIPTION_API_VERSION}`
+    },
+    openai: {
+        authHeaders: bearerAuth,
+        chatUrl: (config) => `${trimEndpoint(config.endpoint)}/chat/completions`,
+        chatBody: (config, { messages, maxTokens, stream }) => ({ model: config.model, messages, max_completion_tokens: maxTokens, ...(stream ? { stream } : {}) }),
+        transcriptionUrl: (config) => `${trimEndpoint(config.endpoint)}/audio/transcriptions`
+    },
+    // Local servers mostly implement the older `max_tokens` field and usually need no key
+    local: {
+        authHeaders: bearerAuth,
+        chatUrl: (config) => `${trimEndpoint(config.endpoint)}/chat/completions`,
+        chatBody: (config, { messages, maxTokens, stream }) => ({ model: config.model, messages, max_tokens: maxTokens, ...(stream ? { stream } : {}) }),
+        transcriptionUrl: (config) => `${trimEndpoint(config.endpoint)}/audio/transcriptions`
+    },
+};
+
+async function postChat(config: AIConfig, payload: ChatPayload): Promise<Response> {
+    const transport = transports[config.provider];
+    return fetch(transport.chatUrl(config), {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...transport.authHeaders(config)
+        },
+        body: JSON.stringify(transport.chatBody(config, payload)),
+        signal: payload.signal
+    });
+}
+
+// A separate transcription endpoint (e.g. a local Whisper server) is treated as OpenAI-compatible
+// and never receives the chat provider's key
+async function postTranscription(config: AIConfig, model: string, audio: Blob, signal?: AbortSignal): Promise<Response> {
+    const form = new FormData();
+    const extension = audio.type.includes('mp4') ? 'mp4' : audio.type.includes('ogg') ? 'ogg' : 'webm';
+    form.append('file', audio, `recording.${extension}`);
+    form.append('model', model);
+
+    if (config.transcriptionEndpoint) {
+        return fetch(`${trimEndpoint(config.transcriptionEndpoint)}/audio/transcriptions`, {
+            method: 'POST',
+            body: form,
+            signal
+        });
+    }
+
+    const transport = transports[config.provider];
+    return fetch(transport.transcriptionUrl(config, model), {
+        method: 'POST',
+        headers: transport.authHeaders(config),
+        body: form,
+        signal
+    });
+}
+
+// Reads a server-sent event stream of chat.completion.chunk objects, returning the full text
+async function readCompletionStream(response: Response, onPartial: (text: string) => void): Promise<string> {
+    if (!response.body) {
+        throw new Error('Streaming is not supported by this browser.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // The last line may be incomplete; keep it for the next chunk
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+
+            const data = trimmed.slice('data:'.length).trim();
+            if (data === '[DONE]') return text;
+
+            try {
+                const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onPartial(text);
+                }
+            } catch {
+                console.warn('Skipping malformed stream chunk:', data);
+            }
+        }
+    }
+
+    return text;
+}
+
+export function createProvider(config: AIConfig): ChatProvider {
+    const label = PROVIDER_INFO[config.provider].label;
+
+    const complete = async (messages: ChatMessage[], { onPartial, signal, maxTokens = 1000 }: CompleteOptions = {}): Promise<string> => {
+        const response = await postChat(config, { messages, maxTokens, stream: !!onPartial, signal });
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`${label} API error: ${error}`);
+        }
+
+        if (onPartial) {
+            return readCompletionStream(response, onPartial);
+        }
+        const data = await response.json();
+        return data.choices[0]?.message?.content ?? '';
+    };
+
+    return {
+        id: config.provider,
+
+        analyze: async (imageData, prompt, conversationHistory, options = {}) => {
+            // Build the new user message
+            const userContent: Array<{ type: string; text?: string; image_url?: { url: string } }> = [];
+
+            const images = (Array.isArray(imageData) ? imageData : [imageData]).filter(Boolean);
+            images.forEach(url => {
+                userContent.push({
+                    type: 'image_url',
+                    image_url: { url }
+                });
+            });
+
+            userContent.push({
+                type: 'text',
+                text: prompt
+            });
+
+            const newMessage: ChatMessage = {
+                role: 'user',
+                content: userContent
+            };
+
+            const { onPartial, signal, context, attachedText, maxTokens } = options;
+
+            // The message as sent carries the attached text between the image and the prompt
+            const sentMessage: ChatMessage = attachedText
+                ? { role: 'user', content: [...userContent.slice(0, -1), { type: 'text', text: attachedText }, ...userContent.slice(-1)] }
+                : newMessage;
+
+            // Build messages array with history
+            const messages: ChatMessage[] = [
+                { role: 'system', content: SYSTEM_PROMPT },
+                ...conversationHistory,
+                ...(context ? [{ role: 'system' as const, content: context }] : []),
+                sentMessage
+            ];
+
+            const responseText = await complete(messages, { onPartial, signal, maxTokens }) || 'No response generated.';
+
+            const assistantMessage: ChatMessage = {
+                role: 'assistant',
+                content: responseText
+            };
+
+            return {
+                response: responseText,
+                newMessage,
+                assistantMessage
+            };
+        },
+
+        complete,
+
+        testConnection: async () => {
+            try {
+                const response = await postChat(config, {
+                    messages: [{ role: 'user', content: 'Say "Connection successful" in 3 words or less.' }],
+                    maxTokens: 20
+                });
+
+                if (!response.ok) {
+                    const error = await response.json().catch(() => null);
+                    return {
+                        success: false,
+                        message: error?.error?.message || `Connection failed (HTTP ${response.status})`
+                    };
+                }
+
+                return { success: true, message: `Connected to ${label}!` };
+            } catch (err) {
+                return {
+                    success: false,
+                    message: err instanceof Error ? err.message : 'Network error'
+                };
+            }
+        },
+
+        transcribe: async (audio, signal) => {
+            const model = config.transcriptionModel;
+            if (!model) {
+                throw new Error('Voice input needs a transcription model. Please add one in Settings.');
+            }
+
+            const response = await postTranscription(config, model, audio, signal);
+
+            if (!response.ok) {
+                const error = await response.text();
+                throw new Error(`Transcription error: ${error}`);
+            }
+
+            const data = await response.json();
+            return (data.text ?? '').trim();
+        }
+    };
+}
+
+// Provider for the settings saved in the browser
+export function getActiveProvider(): ChatProvider {
+    const config = getConfig();
+    if (!config || !hasRequiredFields(config)) {
+        throw new Error('No AI provider is configured. Please add your API settings.');
+    }
+    return createProvider(config);
+}
@@ -0,0 +1,163 @@
+// Azure Speech text-to-speech, usable alongside any chat provider
+
+import { getConfig } from './config';
+
+// Speech synthesis
+let currentAudio: HTMLAudioElement | null = null;
+let finishCurrentAudio: (() => void) | null = null;
+// Bumped by stopAllProcessing so queued sentences from an old reply are dropped
+let playbackGeneration = 0;
+
+// Streamed sentences shorter than this are merged with the next one to avoid choppy speech
+const MIN_SENTENCE_LENGTH = 40;
+const SENTENCE_END = /[.!?]+["')\]]*\s+|\n{2,}/g;
+
+const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+async function fetchSpeechAudio(text: string, signal?: AbortSignal): Promise<Blob | null> {
+    const config = getConfig();
+    if (!config?.speechKey || !config?.speechRegion) {
+        console.log('Speech synthesis not configured, skipping...');
+        return null;
+    }
+
+    const { speechKey, speechRegion } = config;
+
+    const url = `https://${speechRegion}.tts.speech.microsoft.com/cognitiveservices/v1`;
+
+    const ssml = `
+    <speak version='1.0' xmlns='http://www.w3.org/2001/10/synthesis' xml:lang='en-US'>
+      <voice name='en-US-JennyNeural'>
+        ${escapeXml(text)}
+      </voice>
+    </speak>
+  `;
+
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Ocp-Apim-Subscription-Key': speechKey,
+            'Content-Type': 'application/ssml+xml',
+            'X-Microsoft-OutputFormat': 'audio-16khz-128kbitrate-mono-mp3'
+        },
+        body: ssml,
+        signal
+    });
+
+    if (!response.ok) {
+        console.error('Speech synthesis failed:', await response.text());
+        return null;
+    }
+
+    return response.blob();
+}
+
+function playAudio(audioBlob: Blob): Promise<void> {
+    const audioUrl = URL.createObjectURL(audioBlob);
+
+    // Stop any currently playing audio
+    stopAudio();
+
+    const audio = new Audio(audioUrl);
+    currentAudio = audio;
+
+    // Return a promise that resolves when the audio finishes playing or is stopped
+    return new Promise<void>((resolve) => {
+        const finish = () => {
+            if (currentAudio === audio) {
+                currentAudio = null;
+                finishCurrentAudio = null;
+            }
+            URL.revokeObjectURL(audioUrl);
+            resolve();
+        };
+        finishCurrentAudio = finish;
+        audio.onended = finish;
+        audio.onerror = finish;
+        audio.play().catch(finish);
+    });
+}
+
+function stopAudio(): void {
+    if (currentAudio) {
+        currentAudio.pause();
+    }
+    finishCurrentAudio?.();
+}
+
+export async function synthesizeSpeech(text: string, signal?: AbortSignal): Promise<void> {
+    const audioBlob = await fetchSpeechAudio(text, signal);
+    if (audioBlob && !signal?.aborted) {
+        await playAudio(audioBlob);
+    }
+}
+
+export interface SpeechStream {
+    // Pass the full reply text received so far; complete sentences are queued for speech
+    update: (text: string) => void;
+    // Queue the rest of the final text and resolve once everything has been spoken
+    finish: (text: string) => Promise<void>;
+}
+
+// Speaks a streamed reply sentence by sentence. Audio for upcoming sentences is fetched
+// while the current one plays, so speech keeps pace with generation. Aborting the signal
+// cancels pending synthesis requests and silences the sentence being spoken.
+export function createSpeechStream(signal?: AbortSignal): SpeechStream {
+    const generation = playbackGeneration;
+    const config = getConfig();
+    const enabled = !!(config?.speechKey && config?.speechRegion);
+    let consumed = 0;
+    let playback = Promise.resolve();
+
+    if (!enabled) {
+        console.log('Speech synthesis not configured, skipping...');
+    }
+
+    signal?.addEventListener('abort', stopAudio, { once: true });
+
+    const enqueue = (sentence: string) => {
+        const text = sentence.trim();
+        if (!enabled || !text || signal?.aborted) return;
+
+        const audio = fetchSpeechAudio(text, signal).catch((err) => {
+            if (!signal?.aborted) {
+                console.error('Speech synthesis failed:', err);
+            }
+            return null;
+        });
+        playback = playback.then(async () => {
+            const audioBlob = await audio;
+            if (audioBlob && generation === playbackGeneration && !signal?.aborted) {
+                await playAudio(audioBlob);
+            }
+        });
+    };
+
+    return {
+        update: (text) => {
+            const pending = text.slice(consumed);
+            let cut = 0;
+            for (const match of pending.matchAll(SENTENCE_END)) {
+                const end = match.index + match[0].length;
+                if (end - cut >= MIN_SENTENCE_LENGTH) {
+                    enqueue(pending.slice(cut, end));
+                    cut = end;
+                }
+            }
+            consumed += cut;
+        },
+        finish: (text) => {
+            enqueue(text.slice(consumed));
+            consumed = text.length;
+            return playback;
+        }
+    };
+}
+
+export function stopAllProcessing(): void {
+    playbackGeneration++;
+    stopAudio();
+}
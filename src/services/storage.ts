@@ -0,0 +1,209 @@
+// Workspace persistence in IndexedDB. Each board has its own whiteboard, an optional PDF
+// and the chat thread about them. The list, the board contents and the PDF blobs live in
+// separate stores, so listing boards never loads drawings or documents.
+
+import type { Annotation, PDFAnnotations } from '../types/annotationTypes';
+import type { ChatMessage } from './providers';
+
+const DB_NAME = 'ideation-buddy';
+const DB_VERSION = 1;
+const BOARDS = 'boards';
+const BOARD_CONTENTS = 'boardContents';
+const DOCUMENTS = 'documents';
+
+// Which board was open last, restored on the next visit
+const ACTIVE_BOARD_KEY = 'active_board';
+
+export const DEFAULT_BOARD_NAME = 'Untitled board';
+
+export interface BoardSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    // File name of the board's PDF, if it has one
+    documentName?: string;
+}
+
+export interface BoardContent {
+    mode: 'whiteboard' | 'pdf';
+    whiteboard: Annotation[];
+    pdfAnnotations: PDFAnnotations;
+    conversation: ChatMessage[];
+}
+
+export interface Board extends BoardSummary, BoardContent {
+    document: File | null;
+}
+
+interface StoredContent extends BoardContent {
+    id: string;
+}
+
+interface StoredDocument {
+    id: string;
+    name: string;
+    blob: Blob;
+}
+
+const EMPTY_CONTENT: BoardContent = { mode: 'whiteboard', whiteboard: [], pdfAnnotations: {}, conversation: [] };
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            db.createObjectStore(BOARDS, { keyPath: 'id' });
+            db.createObjectStore(BOARD_CONTENTS, { keyPath: 'id' });
+            db.createObjectStore(DOCUMENTS, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            database = null;
+            reject(request.error);
+        };
+    });
+    return database;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Runs fn in one transaction and resolves once everything it wrote is committed
+async function withStores<T>(names: string[], mode: IDBTransactionMode, fn: (tx: IDBTransaction) => Promise<T>): Promise<T> {
+    const db = await openDatabase();
+    const tx = db.transaction(names, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    });
+    // Awaited together, so an abort caused by fn failing isn't left unhandled
+    const [result] = await Promise.all([fn(tx), done]);
+    return result;
+}
+
+export async function listBoards(): Promise<BoardSummary[]> {
+    const boards = await withStores([BOARDS], 'readonly', tx => promisify(tx.objectStore(BOARDS).getAll() as IDBRequest<BoardSummary[]>));
+    return boards.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadBoard(id: string): Promise<Board | null> {
+    return withStores([BOARDS, BOARD_CONTENTS, DOCUMENTS], 'readonly', async tx => {
+        const [summary, content, document] = await Promise.all([
+            promisify(tx.objectStore(BOARDS).get(id) as IDBRequest<BoardSummary | undefined>),
+            promisify(tx.objectStore(BOARD_CONTENTS).get(id) as IDBRequest<StoredContent | undefined>),
+            promisify(tx.objectStore(DOCUMENTS).get(id) as IDBRequest<StoredDocument | undefined>)
+        ]);
+        if (!summary) return null;
+
+        const { mode, whiteboard, pdfAnnotations, conversation } = content ?? EMPTY_CONTENT;
+        return {
+            ...summary,
+            mode,
+            whiteboard,
+            pdfAnnotations,
+            conversation,
+            document: document ? new File([document.blob], document.name, { type: 'application/pdf' }) : null
+        };
+    });
+}
+
+export async function createBoard(name = DEFAULT_BOARD_NAME): Promise<Board> {
+    const now = Date.now();
+    const summary: BoardSummary = { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now };
+
+    await withStores([BOARDS, BOARD_CONTENTS], 'readwrite', async tx => {
+        tx.objectStore(BOARDS).put(summary);
+        tx.objectStore(BOARD_CONTENTS).put({ id: summary.id, ...EMPTY_CONTENT });
+    });
+    return { ...summary, ...EMPTY_CONTENT, document: null };
+}
+
+// Autosave target: the drawings, the PDF's annotations and the chat
+export async function saveBoardContent(id: string, content: BoardContent): Promise<void> {
+    await withStores([BOARDS, BOARD_CONTENTS], 'readwrite', async tx => {
+        const boards = tx.objectStore(BOARDS);
+        const summary = await promisify(boards.get(id) as IDBRequest<BoardSummary | undefined>);
+        // The board may have been deleted while the save was pending
+        if (!summary) return;
+
+        boards.put({ ...summary, updatedAt: Date.now() });
+        tx.objectStore(BOARD_CONTENTS).put({ id, ...content });
+    });
+}
+
+// Stores the PDF as a blob next to the board, replacing any previous one
+export async function saveBoardDocument(id: string, file: File): Promise<void> {
+    await withStores([BOARDS, DOCUMENTS], 'readwrite', async tx => {
+        const boards = tx.objectStore(BOARDS);
+        const summary = await promisify(boards.get(id) as IDBRequest<BoardSummary | undefined>);
+        if (!summary) return;
+
+        boards.put({ ...summary, documentName: file.name, updatedAt: Date.now() });
+        tx.objectStore(DOCUMENTS).put({ id, name: file.name, blob: file });
+    });
+}
+
+export async function renameBoard(id: string, name: string): Promise<void> {
+    await withStores([BOARDS], 'readwrite', async tx => {
+        const boards = tx.objectStore(BOARDS);
+        const summary = await promisify(boards.get(id) as IDBRequest<BoardSummary | undefined>);
+        if (summary) {
+            boards.put({ ...summary, name, updatedAt: Date.now() });
+        }
+    });
+}
+
+export async function duplicateBoard(id: string): Promise<BoardSummary | null> {
+    return withStores([BOARDS, BOARD_CONTENTS, DOCUMENTS], 'readwrite', async tx => {
+        const [summary, content, document] = await Promise.all([
+            promisify(tx.objectStore(BOARDS).get(id) as IDBRequest<BoardSummary | undefined>),
+            promisify(tx.objectStore(BOARD_CONTENTS).get(id) as IDBRequest<StoredContent | undefined>),
+            promisify(tx.objectStore(DOCUMENTS).get(id) as IDBRequest<StoredDocument | undefined>)
+        ]);
+        if (!summary) return null;
+
+        const now = Date.now();
+        const copy: BoardSummary = { ...summary, id: crypto.randomUUID(), name: `${summary.name} (copy)`, createdAt: now, updatedAt: now };
+        tx.objectStore(BOARDS).put(copy);
+        tx.objectStore(BOARD_CONTENTS).put({ ...(content ?? EMPTY_CONTENT), id: copy.id });
+        if (document) {
+            tx.objectStore(DOCUMENTS).put({ ...document, id: copy.id });
+        }
+        return copy;
+    });
+}
+
+export async function deleteBoard(id: string): Promise<void> {
+    await withStores([BOARDS, BOARD_CONTENTS, DOCUMENTS], 'readwrite', async tx => {
+        tx.objectStore(BOARDS).delete(id);
+        tx.objectStore(BOARD_CONTENTS).delete(id);
+        tx.objectStore(DOCUMENTS).delete(id);
+    });
+}
+
+export function getActiveBoardId(): string | null {
+    return localStorage.getItem(ACTIVE_BOARD_KEY);
+}
+
+export function setActiveBoardId(id: string): void {
+    localStorage.setItem(ACTIVE_BOARD_KEY, id);
+}
+
+// The board to open on startup: the last one used, else the most recent, else a new one
+export async function restoreSession(): Promise<Board> {
+    const lastId = getActiveBoardId();
+    const last = lastId ? await loadBoard(lastId) : null;
+    if (last) return last;
+
+    const [recent] = await listBoards();
+    const board = recent ? await loadBoard(recent.id) : null;
+    return board ?? createBoard();
+}
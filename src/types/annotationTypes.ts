@@ -1,20 +1,124 @@
 export interface Point {
     x: number;
     y: number;
+    // Stylus pressure from 0 to 1, recorded for pen input only
+    pressure?: number;
 }
 
+export type ShapeKind = 'rectangle' | 'ellipse' | 'triangle' | 'line' | 'arrow';
+
+export type TextKind = 'text' | 'note';
+
+// Text markup over a PDF's text; the tools of the same names apply it to selected text
+export type MarkupKind = 'highlight' | 'underline';
+
+// The eraser cuts away just the ink it passes over; the object eraser deletes whole items
+export type EraserTool = 'eraser' | 'object-eraser';
+
+// 'select' selects a PDF's text, e.g. to ask the AI about it
+export type Tool = 'pen' | 'select' | EraserTool | ShapeKind | TextKind | MarkupKind;
+
+export const SHAPE_KINDS: ShapeKind[] = ['rectangle', 'ellipse', 'triangle', 'line', 'arrow'];
+
+export const isShapeTool = (tool: Tool): tool is ShapeKind =>
+    (SHAPE_KINDS as string[]).includes(tool);
+
+export const isEraserTool = (tool: Tool): tool is EraserTool =>
+    tool === 'eraser' || tool === 'object-eraser';
+
+export const isTextTool = (tool: Tool): tool is TextKind =>
+    tool === 'text' || tool === 'note';
+
+export const isMarkupTool = (tool: Tool): tool is MarkupKind =>
+    tool === 'highlight' || tool === 'underline';
+
+// Tools that work on a PDF's text layer rather than drawing over the page
+export const isTextSelectionTool = (tool: Tool): boolean =>
+    tool === 'select' || isMarkupTool(tool);
+
 export interface Stroke {
+    type: 'stroke';
     points: Point[];
     color: string;
     lineWidth: number;
-    tool: 'pen' | 'eraser';
+    // A comment on it from a PDF it was imported from, written back when the PDF is saved
+    comment?: string;
+}
+
+// Shapes are stored by the drag that created them, so they stay crisp at any scale.
+// Rectangles, ellipses and triangles fill the box spanned by start/end; lines and arrows run from start to end.
+export interface Shape {
+    type: 'shape';
+    kind: ShapeKind;
+    start: Point;
+    end: Point;
+    color: string;
+    lineWidth: number;
+    // Corners of a triangle recognized from ink; without them a triangle points up inside its box
+    vertices?: Point[];
+    comment?: string;
+}
+
+// Typed text: a plain text box drawn in `color`, or a sticky note filled with `color`.
+// The box is what the user sized; text wraps inside its width.
+export interface TextBox {
+    type: 'text';
+    kind: TextKind;
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    text: string;
+    color: string;
+    fontSize: number;
+}
+
+export interface MarkupRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
 }
 
+// A highlight or underline, with one rectangle per line of text it covers
+export interface TextMarkup {
+    type: 'markup';
+    kind: MarkupKind;
+    rects: MarkupRect[];
+    color: string;
+    // The text it was applied to, when known (markup imported from a PDF has none)
+    text?: string;
+    comment?: string;
+}
+
+export type Annotation = Stroke | Shape | TextBox | TextMarkup;
+
+export interface NoteColor {
+    name: string;
+    value: string;
+}
+
+export const NOTE_COLORS: NoteColor[] = [
+    { name: 'yellow', value: '#fde68a' },
+    { name: 'pink', value: '#fbcfe8' },
+    { name: 'green', value: '#bbf7d0' },
+    { name: 'blue', value: '#bfdbfe' },
+];
+
+// Marker colors for highlights and underlines, strong enough to show through at low opacity
+export const MARKUP_COLORS: NoteColor[] = [
+    { name: 'yellow', value: '#facc15' },
+    { name: 'green', value: '#4ade80' },
+    { name: 'pink', value: '#f472b6' },
+    { name: 'blue', value: '#60a5fa' },
+];
+
 export interface PageAnnotation {
     pageNumber: number;
-    strokes: Stroke[];
+    annotations: Annotation[];
 }
 
 export type PDFAnnotations = {
-    [pageNumber: number]: Stroke[];
+    [pageNumber: number]: Annotation[];
 };
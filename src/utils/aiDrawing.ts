@@ -0,0 +1,210 @@
+// Drawings the AI adds to the board. When asked to, the model ends its reply with a fenced block
+// of JSON drawing instructions, positioned on a grid over the image it was sent. The block is cut
+// from the reply and its items checked and turned into ordinary annotations for the AI layer,
+// where they wait until the user accepts or discards them.
+
+import { NOTE_COLORS, type Annotation, type Point, type TextBox } from '../types/annotationTypes';
+import { drawAnnotations, measureTextBoxHeight } from './drawing';
+import { boundsHeight, boundsWidth, getAnnotationsBounds, padBounds, type Bounds } from './geometry';
+
+// Grid units along the longer side of the captured area; the shorter side gets proportionally fewer
+const GRID_SIZE = 1000;
+
+// Items past this many are dropped, so a runaway reply can't bury the board
+export const MAX_DRAWING_ITEMS = 40;
+
+// Reply length allowed when the AI may draw: a full block of items doesn't fit the usual limit
+export const DRAWING_MAX_TOKENS = 4000;
+
+const MAX_LABEL_LENGTH = 300;
+
+// Sizes in grid units, i.e. pixels of a 1000px-wide capture
+const LINE_WIDTH = 3;
+const LABEL = { width: 240, fontSize: 20 };
+const NOTE = { width: 180, height: 180, fontSize: 16 };
+
+// The layer is drawn see-through inside a dashed frame, so it doesn't pass for the user's own work
+const LAYER_OPACITY = 0.7;
+const LAYER_FRAME_COLOR = 'rgba(139, 92, 246, 0.9)';
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Only a block tagged `drawing` is a drawing, so JSON the user asked for stays in the reply.
+// While streaming, the block is hidden before its closing fence arrives.
+const STREAMING_DRAWING_BLOCK = /```drawing[^\n]*\n?[\s\S]*?(?:```|$)/g;
+const DRAWING_BLOCK = /```drawing[^\n]*\n([\s\S]*?)```/g;
+
+// How the captured area maps onto the grid the model positions items on
+interface DrawingGrid {
+    area: Bounds;
+    // World units per grid unit
+    unit: number;
+    width: number;
+    height: number;
+}
+
+function gridFor(area: Bounds): DrawingGrid {
+    const unit = Math.max(boundsWidth(area), boundsHeight(area), 1) / GRID_SIZE;
+    return {
+        area,
+        unit,
+        width: Math.round(boundsWidth(area) / unit),
+        height: Math.round(boundsHeight(area) / unit)
+    };
+}
+
+// Tells the model how to draw on the area the attached image shows
+export function drawingPrompt(area: Bounds): string {
+    const { width, height } = gridFor(area);
+    const noteColors = NOTE_COLORS.map(color => `"${color.name}"`).join(' | ');
+    return [
+        "You can also draw on the user's whiteboard. Only when a drawing would really help (for example the user asks you to add, sketch, label or connect something), end your reply with a fenced code block tagged `drawing` holding JSON like {\"items\": [...]}.",
+        `Positions are on a grid over the attached image: x from 0 to ${width} left to right, y from 0 to ${height} top to bottom.`,
+        'Items:',
+        '- {"type": "rectangle" | "ellipse" | "triangle", "x": 0, "y": 0, "width": 0, "height": 0} (x and y are the top left corner)',
+        '- {"type": "line" | "arrow", "from": [x, y], "to": [x, y]}',
+        '- {"type": "label", "x": 0, "y": 0, "text": "..."} (text, from its top left corner)',
+        `- {"type": "note", "x": 0, "y": 0, "text": "...", "color": ${noteColors}} (a sticky note, about 180 square)`,
+        'Shapes, lines and labels may set "color" to a hex code. Keep clear of what is already drawn unless you are pointing at it.',
+        `Use at most ${MAX_DRAWING_ITEMS} items. Don't describe the block in your reply; the user sees it as a drawing.`
+    ].join('\n');
+}
+
+// The reply as shown and spoken while it streams: without the drawing block, even a half-received one
+export const stripDrawingBlock = (text: string) => text.replace(STREAMING_DRAWING_BLOCK, '').trim();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null =>
+    typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// The item list from the block's JSON: {"items": [...]}, a bare array, or a tool call whose
+// arguments hold either (some local models write tool calls out as text)
+function readItems(json: string): unknown[] | null {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        return null;
+    }
+    if (isRecord(value) && 'arguments' in value) {
+        const args = value.arguments;
+        if (typeof args === 'string') return readItems(args);
+        value = args;
+    }
+    if (Array.isArray(value)) return value;
+    if (isRecord(value) && Array.isArray(value.items)) return value.items;
+    return null;
+}
+
+// Turns one instruction into an annotation, or null when it isn't one we can draw
+function toAnnotation(item: unknown, grid: DrawingGrid, color: string): Annotation | null {
+    if (!isRecord(item) || typeof item.type !== 'string') return null;
+
+    const toWorld = (x: number, y: number): Point => ({
+        x: grid.area.minX + Math.min(grid.width, Math.max(0, x)) * grid.unit,
+        y: grid.area.minY + Math.min(grid.height, Math.max(0, y)) * grid.unit
+    });
+    const toPoint = (value: unknown): Point | null => {
+        if (!Array.isArray(value)) return null;
+        const [x, y] = value.map(toNumber);
+        return x === null || y === null ? null : toWorld(x, y);
+    };
+    const itemColor = typeof item.color === 'string' && HEX_COLOR.test(item.color) ? item.color : color;
+    const x = toNumber(item.x);
+    const y = toNumber(item.y);
+
+    switch (item.type) {
+        case 'rectangle':
+        case 'ellipse':
+        case 'triangle': {
+            const width = toNumber(item.width);
+            const height = toNumber(item.height);
+            if (x === null || y === null || !width || !height) return null;
+            const start = toWorld(Math.min(x, x + width), Math.min(y, y + height));
+            const end = toWorld(Math.max(x, x + width), Math.max(y, y + height));
+            if (start.x === end.x || start.y === end.y) return null;
+            return { type: 'shape', kind: item.type, start, end, color: itemColor, lineWidth: LINE_WIDTH * grid.unit };
+        }
+        case 'line':
+        case 'arrow': {
+            const start = toPoint(item.from);
+            const end = toPoint(item.to);
+            if (!start || !end || (start.x === end.x && start.y === end.y)) return null;
+            return { type: 'shape', kind: item.type, start, end, color: itemColor, lineWidth: LINE_WIDTH * grid.unit };
+        }
+        case 'label':
+        case 'note': {
+            const text = typeof item.text === 'string' ? item.text.trim().slice(0, MAX_LABEL_LENGTH) : '';
+            if (x === null || y === null || !text) return null;
+            const at = toWorld(x, y);
+            if (item.type === 'note') {
+                const noteColor = NOTE_COLORS.find(note => note.name === item.color || note.value === item.color) ?? NOTE_COLORS[0];
+                return {
+                    type: 'text', kind: 'note', id: crypto.randomUUID(), ...at, text, color: noteColor.value,
+                    width: NOTE.width * grid.unit, height: NOTE.height * grid.unit, fontSize: NOTE.fontSize * grid.unit
+                };
+            }
+            const label: TextBox = {
+                type: 'text', kind: 'text', id: crypto.randomUUID(), ...at, text, color: itemColor,
+                width: LABEL.width * grid.unit, height: 0, fontSize: LABEL.fontSize * grid.unit
+            };
+            return { ...label, height: measureTextBoxHeight(label) };
+        }
+        default:
+            return null;
+    }
+}
+
+export interface ReplyDrawing {
+    // The reply without its drawing block
+    text: string;
+    items: Annotation[];
+}
+
+// Splits a finished reply into its text and the drawing it asks for, placed on the captured
+// area. Items without a default color are drawn in `color`; ones that don't check out are left out.
+// A block that can't be read, or was cut off before its closing fence, is dropped with nothing drawn.
+export function extractDrawing(reply: string, area: Bounds, color: string): ReplyDrawing {
+    let block: { source: string; items: unknown[] } | null = null;
+    for (const match of reply.matchAll(DRAWING_BLOCK)) {
+        const items = readItems(match[1]);
+        if (items) {
+            block = { source: match[0], items };
+        }
+    }
+    if (!block) {
+        return { text: stripDrawingBlock(reply), items: [] };
+    }
+
+    const grid = gridFor(area);
+    const items = block.items
+        .slice(0, MAX_DRAWING_ITEMS)
+        .map(item => toAnnotation(item, grid, color))
+        .filter((item): item is Annotation => item !== null);
+    if (items.length < block.items.length) {
+        console.warn(`Left out ${block.items.length - items.length} drawing instructions that could not be drawn`);
+    }
+
+    return { text: stripDrawingBlock(reply.replace(block.source, '')), items };
+}
+
+// Draws the AI layer over the board. `zoom` keeps the frame the same on-screen size at any zoom.
+export function drawAiLayer(ctx: CanvasRenderingContext2D, items: Annotation[], zoom: number): void {
+    const bounds = getAnnotationsBounds(items);
+    if (!bounds) return;
+
+    ctx.save();
+    ctx.globalAlpha = LAYER_OPACITY;
+    drawAnnotations(ctx, items);
+    ctx.restore();
+
+    const frame = padBounds(bounds, 12 / zoom);
+    ctx.save();
+    ctx.setLineDash([8 / zoom, 6 / zoom]);
+    ctx.lineWidth = 2 / zoom;
+    ctx.strokeStyle = LAYER_FRAME_COLOR;
+    ctx.strokeRect(frame.minX, frame.minY, boundsWidth(frame), boundsHeight(frame));
+    ctx.restore();
+}
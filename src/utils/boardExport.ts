@@ -0,0 +1,250 @@
+// Whiteboard export: PNG (transparent or on the board's background), SVG built from the
+// vector data, and PDF through pdf-lib, optionally followed by the AI conversation.
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from 'pdf-lib';
+import type { Annotation, Shape, Stroke, TextBox, TextMarkup } from '../types/annotationTypes';
+import { drawAnnotations, layoutTextBox, MARKUP_OPACITY, NOTE_TEXT_COLOR, segmentWidth, TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT, TEXT_PADDING, underlineWidth } from './drawing';
+import { boundsHeight, boundsWidth, getAnnotationsBounds, padBounds, type Bounds } from './geometry';
+import { shapeOutline } from './erasing';
+import { toFontCharacters, wrapPdfText } from './pdfText';
+import { drawOnPage, hexToRgb } from './pdfAnnotations';
+import { getMessageImages, getMessageText, type ChatMessage } from '../services/providers';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    // Paint the board's background behind the drawing instead of leaving it transparent
+    fillBackground: boolean;
+    // Only the area that has content, instead of the part of the board on screen
+    cropToContent: boolean;
+    // PDF only: the chat about the board on pages after the drawing
+    includeConversation: boolean;
+}
+
+// Centre of the app's background gradient, which white ink is drawn against
+export const BOARD_BACKGROUND = '#1a1a2e';
+
+const CONTENT_PADDING = 24;
+// Image pixels per board pixel, reduced for boards that would get too large
+const EXPORT_SCALE = 2;
+const MAX_EXPORT_SIZE = 8192;
+// PDF points per CSS pixel, so the page prints at the size it has on screen
+const POINTS_PER_PIXEL = 0.75;
+
+// Renders the annotations inside bounds (world coordinates) into a new canvas
+export function renderBoard(annotations: Annotation[], bounds: Bounds, scale: number, background?: string): HTMLCanvasElement | null {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(boundsWidth(bounds) * scale));
+    canvas.height = Math.max(1, Math.ceil(boundsHeight(bounds) * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.setTransform(scale, 0, 0, scale, -bounds.minX * scale, -bounds.minY * scale);
+    drawAnnotations(ctx, annotations);
+    return canvas;
+}
+
+// The area an export covers: the content's bounding box, or the visible part of the board
+function exportArea(annotations: Annotation[], options: ExportOptions, viewport: Bounds): Bounds {
+    const content = options.cropToContent ? getAnnotationsBounds(annotations) : null;
+    return content ? padBounds(content, CONTENT_PADDING) : viewport;
+}
+
+function renderPng(annotations: Annotation[], bounds: Bounds, background?: string): Promise<Blob> {
+    const scale = Math.min(EXPORT_SCALE, MAX_EXPORT_SIZE / Math.max(boundsWidth(bounds), boundsHeight(bounds)));
+    const canvas = renderBoard(annotations, bounds, scale, background);
+
+    return new Promise((resolve, reject) => {
+        if (!canvas) {
+            reject(new Error('Could not create a canvas to render the board'));
+            return;
+        }
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG'))), 'image/png');
+    });
+}
+
+// SVG
+
+const num = (value: number) => Number(value.toFixed(2));
+
+const escapeXml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const strokeAttributes = (color: string, lineWidth: number) =>
+    `fill="none" stroke="${escapeXml(color)}" stroke-width="${num(lineWidth)}" stroke-linecap="round" stroke-linejoin="round"`;
+
+function strokeToSvg(stroke: Stroke): string {
+    const { points } = stroke;
+    if (points.length < 2) return '';
+
+    // Pen strokes vary in width, so each segment is its own line, as on the canvas
+    if (points.some(point => point.pressure !== undefined)) {
+        const segments = points.slice(1).map((to, i) => {
+            const from = points[i];
+            return `<line x1="${num(from.x)}" y1="${num(from.y)}" x2="${num(to.x)}" y2="${num(to.y)}" stroke-width="${num(segmentWidth(stroke.lineWidth, from, to))}"/>`;
+        });
+        return `<g stroke="${escapeXml(stroke.color)}" stroke-linecap="round">${segments.join('')}</g>`;
+    }
+
+    const d = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${num(point.x)} ${num(point.y)}`).join(' ');
+    return `<path d="${d}" ${strokeAttributes(stroke.color, stroke.lineWidth)}/>`;
+}
+
+function shapeToSvg(shape: Shape): string {
+    const attributes = strokeAttributes(shape.color, shape.lineWidth);
+    const { start, end } = shape;
+
+    switch (shape.kind) {
+        case 'rectangle':
+            return `<rect x="${num(Math.min(start.x, end.x))}" y="${num(Math.min(start.y, end.y))}" width="${num(Math.abs(end.x - start.x))}" height="${num(Math.abs(end.y - start.y))}" ${attributes}/>`;
+        case 'ellipse':
+            return `<ellipse cx="${num((start.x + end.x) / 2)}" cy="${num((start.y + end.y) / 2)}" rx="${num(Math.abs(end.x - start.x) / 2)}" ry="${num(Math.abs(end.y - start.y) / 2)}" ${attributes}/>`;
+        default: {
+            const d = shapeOutline(shape)
+                .map(line => line.map((point, i) => `${i === 0 ? 'M' : 'L'}${num(point.x)} ${num(point.y)}`).join(' '))
+                .join(' ');
+            return `<path d="${d}" ${attributes}/>`;
+        }
+    }
+}
+
+function textBoxToSvg(box: TextBox, index: number): string {
+    const lineHeight = box.fontSize * TEXT_LINE_HEIGHT;
+    const offset = (lineHeight - box.fontSize) / 2;
+    const fill = box.kind === 'note' ? NOTE_TEXT_COLOR : box.color;
+    const lines = layoutTextBox(box).map((line, i) =>
+        `<tspan x="${num(box.x + TEXT_PADDING)}" y="${num(box.y + TEXT_PADDING + offset + i * lineHeight)}">${escapeXml(line)}</tspan>`
+    );
+    const text = `<text font-family="${escapeXml(TEXT_FONT_FAMILY)}" font-size="${box.fontSize}" fill="${escapeXml(fill)}" dominant-baseline="text-before-edge" xml:space="preserve">${lines.join('')}</text>`;
+    if (box.kind !== 'note') return text;
+
+    // Notes cut off text that doesn't fit, like on the board
+    const clipId = `note-${index}`;
+    const rect = `x="${num(box.x)}" y="${num(box.y)}" width="${num(box.width)}" height="${num(box.height)}"`;
+    return `<clipPath id="${clipId}"><rect ${rect}/></clipPath>`
+        + `<rect ${rect} fill="${escapeXml(box.color)}"/>`
+        + `<g clip-path="url(#${clipId})">${text}</g>`;
+}
+
+function markupToSvg(markup: TextMarkup): string {
+    if (markup.kind === 'underline') {
+        const lines = markup.rects.map(rect => {
+            const width = underlineWidth(rect.height);
+            return `<rect x="${num(rect.x)}" y="${num(rect.y + rect.height - width)}" width="${num(rect.width)}" height="${num(width)}"/>`;
+        });
+        return `<g fill="${escapeXml(markup.color)}">${lines.join('')}</g>`;
+    }
+    const rects = markup.rects.map(rect => `<rect x="${num(rect.x)}" y="${num(rect.y)}" width="${num(rect.width)}" height="${num(rect.height)}"/>`);
+    return `<g fill="${escapeXml(markup.color)}" fill-opacity="${MARKUP_OPACITY}">${rects.join('')}</g>`;
+}
+
+function renderSvg(annotations: Annotation[], bounds: Bounds, background?: string): Blob {
+    const width = num(boundsWidth(bounds));
+    const height = num(boundsHeight(bounds));
+    const elements = annotations.map((annotation, index) => {
+        if (annotation.type === 'stroke') return strokeToSvg(annotation);
+        if (annotation.type === 'shape') return shapeToSvg(annotation);
+        if (annotation.type === 'markup') return markupToSvg(annotation);
+        return textBoxToSvg(annotation, index);
+    });
+    if (background) {
+        elements.unshift(`<rect x="${num(bounds.minX)}" y="${num(bounds.minY)}" width="${width}" height="${height}" fill="${background}"/>`);
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${num(bounds.minX)} ${num(bounds.minY)} ${width} ${height}">\n`
+        + elements.filter(Boolean).join('\n')
+        + '\n</svg>\n';
+    return new Blob([svg], { type: 'image/svg+xml' });
+}
+
+// PDF
+
+const APPENDIX_PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4
+const APPENDIX_MARGIN = 56;
+const APPENDIX_FONT_SIZE = 10.5;
+const APPENDIX_LINE_HEIGHT = 1.45;
+
+async function addConversationAppendix(pdf: PDFDocument, conversation: ChatMessage[], title: string): Promise<void> {
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    const [pageWidth, pageHeight] = APPENDIX_PAGE_SIZE;
+    const maxWidth = pageWidth - APPENDIX_MARGIN * 2;
+
+    let page = pdf.addPage(APPENDIX_PAGE_SIZE);
+    let y = pageHeight - APPENDIX_MARGIN;
+
+    const write = (text: string, lineFont: PDFFont, size: number, color = rgb(0.1, 0.1, 0.12)) => {
+        wrapPdfText(toFontCharacters(text, lineFont), lineFont, size, maxWidth).forEach(line => {
+            const height = size * APPENDIX_LINE_HEIGHT;
+            if (y - height < APPENDIX_MARGIN) {
+                page = pdf.addPage(APPENDIX_PAGE_SIZE);
+                y = pageHeight - APPENDIX_MARGIN;
+            }
+            y -= height;
+            page.drawText(line, { x: APPENDIX_MARGIN, y, size, font: lineFont, color });
+        });
+    };
+
+    write(`Conversation: ${title}`, bold, 16);
+    y -= APPENDIX_FONT_SIZE;
+
+    conversation.forEach(message => {
+        const attachment = getMessageImages(message).length > 0 ? ' (with board capture)' : '';
+        write(`${message.role === 'user' ? 'You' : 'AI'}${attachment}`, bold, APPENDIX_FONT_SIZE, rgb(0.36, 0.25, 0.75));
+        write(getMessageText(message), font, APPENDIX_FONT_SIZE);
+        y -= APPENDIX_FONT_SIZE;
+    });
+}
+
+async function renderPdf(
+    annotations: Annotation[],
+    bounds: Bounds,
+    background: string | undefined,
+    title: string,
+    conversation: ChatMessage[]
+): Promise<Blob> {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(title);
+    const width = boundsWidth(bounds) * POINTS_PER_PIXEL;
+    const height = boundsHeight(bounds) * POINTS_PER_PIXEL;
+
+    const page = pdf.addPage([width, height]);
+    if (background) {
+        page.drawRectangle({ x: 0, y: 0, width, height, color: rgb(...hexToRgb(background)) });
+    }
+    // Vector content, as in the SVG; board coordinates point down, PDF's up
+    const scale = POINTS_PER_PIXEL;
+    await drawOnPage(pdf, page, annotations, [scale, 0, 0, -scale, -bounds.minX * scale, height + bounds.minY * scale]);
+
+    if (conversation.length > 0) {
+        await addConversationAppendix(pdf, conversation, title);
+    }
+
+    const bytes = await pdf.save();
+    return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' });
+}
+
+// Exports the board in the chosen format. viewport is the visible part of the board in world
+// coordinates, used when not cropping (or when there is nothing to crop to).
+export async function exportBoard(
+    annotations: Annotation[],
+    options: ExportOptions,
+    viewport: Bounds,
+    board: { title: string; conversation: ChatMessage[] }
+): Promise<Blob> {
+    const bounds = exportArea(annotations, options, viewport);
+    const background = options.fillBackground ? BOARD_BACKGROUND : undefined;
+
+    switch (options.format) {
+        case 'png':
+            return renderPng(annotations, bounds, background);
+        case 'svg':
+            return renderSvg(annotations, bounds, background);
+        case 'pdf':
+            return renderPdf(annotations, bounds, background, board.title, options.includeConversation ? board.conversation : []);
+    }
+}
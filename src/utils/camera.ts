@@ -0,0 +1,65 @@
+// Camera for the infinite whiteboard. Strokes are stored in world coordinates;
+// a point is shown on screen at world * zoom + (x, y), in CSS pixels.
+
+import type { Point } from '../types/annotationTypes';
+import { boundsHeight, boundsWidth, type Bounds } from './geometry';
+
+export interface Camera {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+export const DEFAULT_CAMERA: Camera = { x: 0, y: 0, zoom: 1 };
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export function screenToWorld(camera: Camera, point: Point): Point {
+    return {
+        x: (point.x - camera.x) / camera.zoom,
+        y: (point.y - camera.y) / camera.zoom
+    };
+}
+
+export function worldToScreen(camera: Camera, point: Point): Point {
+    return {
+        x: point.x * camera.zoom + camera.x,
+        y: point.y * camera.zoom + camera.y
+    };
+}
+
+// Zooms by a factor while keeping the world point under `anchor` (a screen point) fixed
+export function zoomAt(camera: Camera, anchor: Point, factor: number): Camera {
+    const zoom = clampZoom(camera.zoom * factor);
+    const world = screenToWorld(camera, anchor);
+    return {
+        zoom,
+        x: anchor.x - world.x * zoom,
+        y: anchor.y - world.y * zoom
+    };
+}
+
+// Camera that shows the whole of `bounds` centred in a viewport, never zooming in past 100%
+export function fitBounds(bounds: Bounds, viewportWidth: number, viewportHeight: number, padding = 48): Camera {
+    const width = Math.max(boundsWidth(bounds), 1);
+    const height = Math.max(boundsHeight(bounds), 1);
+    const zoom = clampZoom(Math.min(
+        (viewportWidth - padding * 2) / width,
+        (viewportHeight - padding * 2) / height,
+        1
+    ));
+
+    return {
+        zoom,
+        x: viewportWidth / 2 - (bounds.minX + width / 2) * zoom,
+        y: viewportHeight / 2 - (bounds.minY + height / 2) * zoom
+    };
+}
+
+export function applyCamera(ctx: CanvasRenderingContext2D, camera: Camera): void {
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr * camera.zoom, 0, 0, dpr * camera.zoom, dpr * camera.x, dpr * camera.y);
+}
@@ -0,0 +1,17 @@
+// Saves a blob through a temporary link, as the browser's download
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+// A board or document name made safe to use as a file name
+export function toFileName(name: string, extension: string): string {
+    const base = name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'export';
+    return `${base}.${extension}`;
+}
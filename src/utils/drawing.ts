@@ -0,0 +1,251 @@
+// Canvas rendering for the vector annotation model, shared by the whiteboard and PDF pages
+
+import type { Annotation, Point, Shape, Stroke, TextBox, TextMarkup } from '../types/annotationTypes';
+
+export function applyStrokeStyle(ctx: CanvasRenderingContext2D, stroke: Pick<Stroke, 'color' | 'lineWidth'>): void {
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.lineWidth;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+}
+
+// Pen pressure scales the width between these factors; 0.5 (a normal press) keeps the nominal width
+const MIN_PRESSURE_SCALE = 0.3;
+export const MAX_PRESSURE_SCALE = 1.7;
+
+export const pressureWidth = (lineWidth: number, pressure: number | undefined) =>
+    pressure === undefined ? lineWidth : lineWidth * (MIN_PRESSURE_SCALE + pressure * (MAX_PRESSURE_SCALE - MIN_PRESSURE_SCALE));
+
+// Width of one segment of a pen stroke: the pressure at its ends, averaged
+export function segmentWidth(lineWidth: number, from: Point, to: Point): number {
+    const pressure = from.pressure === undefined || to.pressure === undefined ? to.pressure : (from.pressure + to.pressure) / 2;
+    return pressureWidth(lineWidth, pressure);
+}
+
+// One segment of a stroke, as wide as the pressure at its ends (round caps hide the joins)
+export function drawStrokeSegment(ctx: CanvasRenderingContext2D, lineWidth: number, from: Point, to: Point): void {
+    ctx.beginPath();
+    ctx.lineWidth = segmentWidth(lineWidth, from, to);
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+}
+
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: Stroke): void {
+    if (stroke.points.length < 2) return;
+
+    applyStrokeStyle(ctx, stroke);
+
+    // Pen strokes vary in width, so they are drawn segment by segment
+    if (stroke.points.some(point => point.pressure !== undefined)) {
+        for (let i = 1; i < stroke.points.length; i++) {
+            drawStrokeSegment(ctx, stroke.lineWidth, stroke.points[i - 1], stroke.points[i]);
+        }
+        return;
+    }
+
+    ctx.beginPath();
+    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+    for (let i = 1; i < stroke.points.length; i++) {
+        ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+    }
+    ctx.stroke();
+}
+
+// Arrowhead size scales with the line so thick arrows keep their proportions (see getAnnotationsBounds)
+export const arrowHeadLength = (lineWidth: number) => Math.max(12, lineWidth * 4);
+
+export function drawShape(ctx: CanvasRenderingContext2D, shape: Shape): void {
+    const { start, end } = shape;
+
+    ctx.beginPath();
+    applyStrokeStyle(ctx, shape);
+
+    switch (shape.kind) {
+        case 'rectangle':
+            ctx.rect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+            break;
+        case 'ellipse':
+            ctx.ellipse(
+                (start.x + end.x) / 2,
+                (start.y + end.y) / 2,
+                Math.abs(end.x - start.x) / 2,
+                Math.abs(end.y - start.y) / 2,
+                0, 0, Math.PI * 2
+            );
+            break;
+        case 'triangle': {
+            const corners = shape.vertices ?? [
+                { x: (start.x + end.x) / 2, y: Math.min(start.y, end.y) },
+                { x: Math.max(start.x, end.x), y: Math.max(start.y, end.y) },
+                { x: Math.min(start.x, end.x), y: Math.max(start.y, end.y) }
+            ];
+            ctx.moveTo(corners[0].x, corners[0].y);
+            corners.slice(1).forEach(corner => ctx.lineTo(corner.x, corner.y));
+            ctx.closePath();
+            break;
+        }
+        case 'line':
+            ctx.moveTo(start.x, start.y);
+            ctx.lineTo(end.x, end.y);
+            break;
+        case 'arrow': {
+            const angle = Math.atan2(end.y - start.y, end.x - start.x);
+            const head = arrowHeadLength(shape.lineWidth);
+            ctx.moveTo(start.x, start.y);
+            ctx.lineTo(end.x, end.y);
+            ctx.moveTo(end.x - head * Math.cos(angle - Math.PI / 6), end.y - head * Math.sin(angle - Math.PI / 6));
+            ctx.lineTo(end.x, end.y);
+            ctx.lineTo(end.x - head * Math.cos(angle + Math.PI / 6), end.y - head * Math.sin(angle + Math.PI / 6));
+            break;
+        }
+    }
+
+    ctx.stroke();
+}
+
+// Text layout shared with the HTML editor overlay, so a box looks the same while it is being edited
+export const TEXT_FONT_FAMILY = "Inter, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+export const TEXT_LINE_HEIGHT = 1.3;
+export const TEXT_PADDING = 8;
+export const NOTE_TEXT_COLOR = '#1f2937';
+
+// Breaks text into lines that fit maxWidth, keeping the user's own line breaks
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(/(\s+)/).forEach(word => {
+            const candidate = line + word;
+            if (line && ctx.measureText(candidate.trimEnd()).width > maxWidth) {
+                lines.push(line.trimEnd());
+                line = word.trimStart();
+            } else {
+                line = candidate;
+            }
+        });
+        lines.push(line.trimEnd());
+    });
+
+    return lines;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// The lines a text box shows, wrapped to its width (also used where there is no canvas, e.g. SVG export)
+export function layoutTextBox(box: TextBox): string[] {
+    measureContext ??= document.createElement('canvas').getContext('2d');
+    if (!measureContext) return box.text.split('\n');
+
+    measureContext.font = `${box.fontSize}px ${TEXT_FONT_FAMILY}`;
+    return wrapText(measureContext, box.text, box.width - TEXT_PADDING * 2);
+}
+
+// Height a text box needs to show all of its lines at its current width
+export function measureTextBoxHeight(box: TextBox): number {
+    return layoutTextBox(box).length * box.fontSize * TEXT_LINE_HEIGHT + TEXT_PADDING * 2;
+}
+
+export function drawTextBox(ctx: CanvasRenderingContext2D, box: TextBox): void {
+    ctx.save();
+
+    if (box.kind === 'note') {
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+        ctx.shadowBlur = 8;
+        ctx.shadowOffsetY = 2;
+        ctx.fillStyle = box.color;
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+        ctx.shadowColor = 'transparent';
+
+        // Notes keep their size; text that doesn't fit is cut off at the edge
+        ctx.beginPath();
+        ctx.rect(box.x, box.y, box.width, box.height);
+        ctx.clip();
+    }
+
+    ctx.font = `${box.fontSize}px ${TEXT_FONT_FAMILY}`;
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = box.kind === 'note' ? NOTE_TEXT_COLOR : box.color;
+
+    const lineHeight = box.fontSize * TEXT_LINE_HEIGHT;
+    // Center the glyphs in each line box, as CSS line-height does in the editor
+    const offset = (lineHeight - box.fontSize) / 2;
+    wrapText(ctx, box.text, box.width - TEXT_PADDING * 2).forEach((line, index) => {
+        ctx.fillText(line, box.x + TEXT_PADDING, box.y + TEXT_PADDING + offset + index * lineHeight);
+    });
+
+    ctx.restore();
+}
+
+// Highlights are translucent so the text underneath stays readable
+export const MARKUP_OPACITY = 0.35;
+
+// An underline runs along the bottom of its line of text, thicker for larger text
+export const underlineWidth = (lineHeight: number) => Math.max(1, lineHeight * 0.08);
+
+export function drawMarkup(ctx: CanvasRenderingContext2D, markup: TextMarkup): void {
+    ctx.save();
+    if (markup.kind === 'underline') {
+        ctx.fillStyle = markup.color;
+        markup.rects.forEach(rect => {
+            const width = underlineWidth(rect.height);
+            ctx.fillRect(rect.x, rect.y + rect.height - width, rect.width, width);
+        });
+    } else {
+        ctx.globalAlpha = MARKUP_OPACITY;
+        ctx.fillStyle = markup.color;
+        markup.rects.forEach(rect => ctx.fillRect(rect.x, rect.y, rect.width, rect.height));
+    }
+    ctx.restore();
+}
+
+export function drawAnnotation(ctx: CanvasRenderingContext2D, annotation: Annotation): void {
+    if (annotation.type === 'shape') {
+        drawShape(ctx, annotation);
+    } else if (annotation.type === 'text') {
+        drawTextBox(ctx, annotation);
+    } else if (annotation.type === 'markup') {
+        drawMarkup(ctx, annotation);
+    } else {
+        drawStroke(ctx, annotation);
+    }
+}
+
+// skipId leaves out the text box the editor overlay is currently showing
+export function drawAnnotations(ctx: CanvasRenderingContext2D, annotations: Annotation[], skipId?: string | null): void {
+    annotations.forEach(annotation => {
+        if (annotation.type === 'text' && annotation.id === skipId) return;
+        drawAnnotation(ctx, annotation);
+    });
+}
+
+// Outline showing where the eraser is and how much it covers
+export function drawEraserCursor(ctx: CanvasRenderingContext2D, center: Point, radius: number): void {
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+    ctx.lineWidth = radius / 10;
+    ctx.strokeStyle = 'rgba(139, 92, 246, 0.9)';
+    ctx.stroke();
+}
+
+// Sizes the backing store for the given CSS size at the current DPR and clears it.
+// Drawing afterwards happens in CSS pixels.
+export function prepareCanvas(canvas: HTMLCanvasElement, cssWidth: number, cssHeight: number): CanvasRenderingContext2D | null {
+    const dpr = window.devicePixelRatio || 1;
+    const pixelWidth = Math.round(cssWidth * dpr);
+    const pixelHeight = Math.round(cssHeight * dpr);
+
+    // Only touch the size when it changes; assigning it resets the context state
+    if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+        canvas.width = pixelWidth;
+        canvas.height = pixelHeight;
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, cssWidth, cssHeight);
+    return ctx;
+}
@@ -0,0 +1,215 @@
+// Erasing edits the vector model itself: the object eraser removes whatever it touches,
+// the partial eraser cuts strokes where it passes and keeps the pieces on either side.
+
+import type { Annotation, EraserTool, Point, Shape, Stroke } from '../types/annotationTypes';
+import { arrowHeadLength } from './drawing';
+import { removeItems, replaceItems, type Command } from './history';
+
+// Eraser size on screen, in CSS pixels
+export const ERASER_RADIUS = 10;
+
+const ELLIPSE_SEGMENTS = 48;
+
+function lerp(a: Point, b: Point, t: number): Point {
+    const point = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    return a.pressure !== undefined && b.pressure !== undefined
+        ? { ...point, pressure: a.pressure + (b.pressure - a.pressure) * t }
+        : point;
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+    return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+function distanceToPolyline(point: Point, points: Point[]): number {
+    if (points.length === 1) return Math.hypot(point.x - points[0].x, point.y - points[0].y);
+    let nearest = Infinity;
+    for (let i = 1; i < points.length; i++) {
+        nearest = Math.min(nearest, distanceToSegment(point, points[i - 1], points[i]));
+    }
+    return nearest;
+}
+
+// The visible outline of a shape as polylines, so the erasers can treat it like ink
+export function shapeOutline(shape: Shape): Point[][] {
+    const { start, end } = shape;
+    const minX = Math.min(start.x, end.x);
+    const minY = Math.min(start.y, end.y);
+    const maxX = Math.max(start.x, end.x);
+    const maxY = Math.max(start.y, end.y);
+
+    switch (shape.kind) {
+        case 'rectangle':
+            return [[
+                { x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }, { x: minX, y: minY }
+            ]];
+        case 'ellipse': {
+            const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+            return [Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+                const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+                return { x: center.x + ((maxX - minX) / 2) * Math.cos(angle), y: center.y + ((maxY - minY) / 2) * Math.sin(angle) };
+            })];
+        }
+        case 'triangle': {
+            const corners = shape.vertices ?? [
+                { x: (minX + maxX) / 2, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }
+            ];
+            return [[...corners, corners[0]]];
+        }
+        case 'line':
+            return [[start, end]];
+        case 'arrow': {
+            const angle = Math.atan2(end.y - start.y, end.x - start.x);
+            const head = arrowHeadLength(shape.lineWidth);
+            return [
+                [start, end],
+                [
+                    { x: end.x - head * Math.cos(angle - Math.PI / 6), y: end.y - head * Math.sin(angle - Math.PI / 6) },
+                    end,
+                    { x: end.x - head * Math.cos(angle + Math.PI / 6), y: end.y - head * Math.sin(angle + Math.PI / 6) }
+                ]
+            ];
+        }
+    }
+}
+
+export function hitsAnnotation(annotation: Annotation, point: Point, radius: number): boolean {
+    switch (annotation.type) {
+        case 'stroke':
+            return distanceToPolyline(point, annotation.points) <= radius + annotation.lineWidth / 2;
+        case 'shape':
+            return shapeOutline(annotation).some(line => distanceToPolyline(point, line) <= radius + annotation.lineWidth / 2);
+        case 'text':
+            return hitsRect(annotation, point, radius);
+        case 'markup':
+            return annotation.rects.some(rect => hitsRect(rect, point, radius));
+    }
+}
+
+const hitsRect = (rect: { x: number; y: number; width: number; height: number }, point: Point, radius: number) =>
+    point.x >= rect.x - radius && point.x <= rect.x + rect.width + radius
+    && point.y >= rect.y - radius && point.y <= rect.y + rect.height + radius;
+
+// Parts of segment a→b (as t ranges in [0, 1]) that lie outside the circle
+function outsideCircle(a: Point, b: Point, center: Point, radius: number): Array<[number, number]> {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const fx = a.x - center.x;
+    const fy = a.y - center.y;
+    const qa = dx * dx + dy * dy;
+    const qb = 2 * (fx * dx + fy * dy);
+    const qc = fx * fx + fy * fy - radius * radius;
+
+    if (qa === 0) return qc > 0 ? [[0, 1]] : [];
+    const discriminant = qb * qb - 4 * qa * qc;
+    if (discriminant <= 0) return [[0, 1]];
+
+    const root = Math.sqrt(discriminant);
+    const enter = Math.max(0, (-qb - root) / (2 * qa));
+    const leave = Math.min(1, (-qb + root) / (2 * qa));
+    if (enter >= leave) return [[0, 1]];
+
+    const parts: Array<[number, number]> = [];
+    if (enter > 0) parts.push([0, enter]);
+    if (leave < 1) parts.push([leave, 1]);
+    return parts;
+}
+
+// Cuts away the part of a polyline inside the circle, returning the pieces left over
+function cutPolyline(points: Point[], center: Point, radius: number): Point[][] {
+    const pieces: Point[][] = [];
+    let current: Point[] | null = null;
+
+    const close = () => {
+        if (current && current.length >= 2) pieces.push(current);
+        current = null;
+    };
+
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const parts = outsideCircle(a, b, center, radius);
+        if (parts.length === 0) {
+            close();
+            continue;
+        }
+
+        parts.forEach(([from, to]) => {
+            // A part starting mid-segment comes out of the eraser, so it begins a new piece
+            if (from > 0 || !current) {
+                close();
+                current = [lerp(a, b, from)];
+            }
+            current!.push(lerp(a, b, to));
+            if (to < 1) close();
+        });
+    }
+    close();
+
+    return pieces;
+}
+
+// Partial erase at one eraser position. Untouched items are returned as-is, so
+// the result can be compared by identity; text boxes can only be removed whole,
+// and markup loses the lines of text the eraser touches.
+export function eraseAt(annotations: Annotation[], center: Point, radius: number): Annotation[] {
+    return annotations.flatMap((annotation): Annotation[] => {
+        if (annotation.type === 'text' || !hitsAnnotation(annotation, center, radius)) {
+            return [annotation];
+        }
+        if (annotation.type === 'markup') {
+            const rects = annotation.rects.filter(rect => !hitsRect(rect, center, radius));
+            return rects.length > 0 ? [{ ...annotation, rects }] : [];
+        }
+
+        const style = { color: annotation.color, lineWidth: annotation.lineWidth };
+        const lines = annotation.type === 'stroke' ? [annotation.points] : shapeOutline(annotation);
+        return lines
+            .flatMap(line => cutPolyline(line, center, radius + annotation.lineWidth / 2))
+            .map((points): Stroke => ({ type: 'stroke', points, ...style }));
+    });
+}
+
+// Eraser positions along a drag from a to b, close enough together to leave no gaps
+export function eraserPath(a: Point, b: Point, radius: number): Point[] {
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / (radius / 2)));
+    return Array.from({ length: steps }, (_, i) => lerp(a, b, (i + 1) / steps));
+}
+
+// One eraser drag: applied to a working copy while the pointer moves, committed as a single command
+export interface EraseSession {
+    before: Annotation[];
+    current: Annotation[];
+    last: Point;
+}
+
+export function startErasing(tool: EraserTool, annotations: Annotation[], point: Point, radius: number): EraseSession {
+    const session = { before: annotations, current: annotations, last: point };
+    continueErasing(tool, session, point, radius);
+    return session;
+}
+
+export function continueErasing(tool: EraserTool, session: EraseSession, point: Point, radius: number): void {
+    const positions = session.last === point ? [point] : eraserPath(session.last, point, radius);
+    positions.forEach(position => {
+        session.current = tool === 'object-eraser'
+            ? session.current.filter(annotation => !hitsAnnotation(annotation, position, radius))
+            : eraseAt(session.current, position, radius);
+    });
+    session.last = point;
+}
+
+// The drag's edit as an undoable command, or null when it didn't touch anything
+export function finishErasing(tool: EraserTool, session: EraseSession): Command<Annotation> | null {
+    const { before, current } = session;
+    const unchanged = current.length === before.length && current.every((annotation, i) => annotation === before[i]);
+    if (unchanged) return null;
+
+    return tool === 'object-eraser'
+        ? removeItems(before, before.filter(annotation => !current.includes(annotation)))
+        : replaceItems(before, current, 'Erase');
+}
@@ -0,0 +1,90 @@
+// Geometry helpers for the vector annotation model
+
+import type { Annotation, Point, ShapeKind, TextBox } from '../types/annotationTypes';
+import { arrowHeadLength, MAX_PRESSURE_SCALE } from './drawing';
+
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export const boundsWidth = (bounds: Bounds) => bounds.maxX - bounds.minX;
+export const boundsHeight = (bounds: Bounds) => bounds.maxY - bounds.minY;
+
+export const padBounds = (bounds: Bounds, padding: number): Bounds => ({
+    minX: bounds.minX - padding,
+    minY: bounds.minY - padding,
+    maxX: bounds.maxX + padding,
+    maxY: bounds.maxY + padding
+});
+
+export function getPointsBounds(points: Point[]): Bounds | null {
+    if (points.length === 0) return null;
+
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    points.forEach(({ x, y }) => {
+        bounds.minX = Math.min(bounds.minX, x);
+        bounds.minY = Math.min(bounds.minY, y);
+        bounds.maxX = Math.max(bounds.maxX, x);
+        bounds.maxY = Math.max(bounds.maxY, y);
+    });
+    return bounds;
+}
+
+// Bounding box of the visible ink, padded by half the line width
+export function getAnnotationsBounds(annotations: Annotation[]): Bounds | null {
+    let result: Bounds | null = null;
+
+    annotations.forEach(annotation => {
+        let bounds: Bounds | null;
+        let half = 0;
+        if (annotation.type === 'text') {
+            bounds = getTextBoxBounds(annotation);
+        } else if (annotation.type === 'markup') {
+            bounds = getPointsBounds(annotation.rects.flatMap(rect => [
+                { x: rect.x, y: rect.y },
+                { x: rect.x + rect.width, y: rect.y + rect.height }
+            ]));
+        } else {
+            bounds = getPointsBounds(annotation.type === 'shape' ? [annotation.start, annotation.end] : annotation.points);
+            // Arrowheads can reach a little past the line's end point, and hard pen presses past the nominal width
+            half = annotation.type === 'shape'
+                ? annotation.lineWidth / 2 + (annotation.kind === 'arrow' ? arrowHeadLength(annotation.lineWidth) : 0)
+                : annotation.lineWidth * MAX_PRESSURE_SCALE / 2;
+        }
+        if (!bounds) return;
+
+        result = {
+            minX: Math.min(result?.minX ?? Infinity, bounds.minX - half),
+            minY: Math.min(result?.minY ?? Infinity, bounds.minY - half),
+            maxX: Math.max(result?.maxX ?? -Infinity, bounds.maxX + half),
+            maxY: Math.max(result?.maxY ?? -Infinity, bounds.maxY + half),
+        };
+    });
+
+    return result;
+}
+
+export const getTextBoxBounds = (box: TextBox): Bounds => ({
+    minX: box.x,
+    minY: box.y,
+    maxX: box.x + box.width,
+    maxY: box.y + box.height
+});
+
+// Shift-drag constraint: square boxes for rectangles, ellipses and triangles, 45° steps for lines and arrows
+export function constrainShapeEnd(kind: ShapeKind, start: Point, end: Point): Point {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+
+    if (kind === 'rectangle' || kind === 'ellipse' || kind === 'triangle') {
+        const size = Math.max(Math.abs(dx), Math.abs(dy));
+        return { x: start.x + Math.sign(dx || 1) * size, y: start.y + Math.sign(dy || 1) * size };
+    }
+
+    const length = Math.hypot(dx, dy);
+    const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+    return { x: start.x + length * Math.cos(angle), y: start.y + length * Math.sin(angle) };
+}
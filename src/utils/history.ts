@@ -0,0 +1,60 @@
+// Undoable edits to one annotation list: the whiteboard or a single PDF page.
+// Commands are pure list transforms so the same history works for any element type.
+
+export interface Command<T> {
+    label: string;
+    apply: (items: T[]) => T[];
+    revert: (items: T[]) => T[];
+}
+
+// Undo stacks are kept per scope, so each PDF page has its own history
+export type HistoryScope = 'whiteboard' | `page:${number}`;
+
+export const pageScope = (pageNumber: number): HistoryScope => `page:${pageNumber}`;
+
+export const scopePage = (scope: HistoryScope): number | null =>
+    scope.startsWith('page:') ? Number(scope.slice('page:'.length)) : null;
+
+export function addItems<T>(added: T[], label = 'Draw'): Command<T> {
+    return {
+        label,
+        apply: (items) => [...items, ...added],
+        revert: (items) => items.filter(item => !added.includes(item))
+    };
+}
+
+// Removal remembers where each item sat so undo puts it back in the same z-order
+export function removeItems<T>(current: T[], removed: T[], label = 'Erase'): Command<T> {
+    const positions = removed
+        .map(item => ({ item, index: current.indexOf(item) }))
+        .filter(entry => entry.index !== -1)
+        .sort((a, b) => a.index - b.index);
+
+    return {
+        label,
+        apply: (items) => items.filter(item => !removed.includes(item)),
+        revert: (items) => {
+            const restored = [...items];
+            positions.forEach(({ item, index }) => restored.splice(Math.min(index, restored.length), 0, item));
+            return restored;
+        }
+    };
+}
+
+// Swaps one item for its edited copy in place, e.g. a moved or retyped text box
+export function updateItem<T>(before: T, after: T, label = 'Edit'): Command<T> {
+    return {
+        label,
+        apply: (items) => items.map(item => (item === before ? after : item)),
+        revert: (items) => items.map(item => (item === after ? before : item))
+    };
+}
+
+// Whole-list swap, used for clear-all and edits that rewrite many items at once
+export function replaceItems<T>(before: T[], after: T[], label: string): Command<T> {
+    return {
+        label,
+        apply: () => after,
+        revert: () => before
+    };
+}
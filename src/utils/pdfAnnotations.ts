@@ -0,0 +1,595 @@
+// PDF annotation interchange. In the app, annotations live in page coordinates: points from the
+// top left of the page as it is shown (cropped and rotated), the space pdf.js lays a page out in
+// at scale 1, so they stay put at any zoom. In the file they become standard annotations in the page's user space (Ink, Square,
+// Circle, Line, Polygon, FreeText and Highlight), each with an appearance stream so every reader
+// shows them the way they look here, and other tools can still edit them. The same kinds are
+// read back in when a PDF is opened, so markup survives round trips through other readers.
+
+import {
+    beginText,
+    clip,
+    closePath,
+    concatTransformationMatrix,
+    endPath,
+    endText,
+    fill,
+    LineCapStyle,
+    LineJoinStyle,
+    lineTo,
+    moveTo,
+    popGraphicsState,
+    pushGraphicsState,
+    rectangle,
+    setFillingRgbColor,
+    setFontAndSize,
+    setGraphicsState,
+    setLineCap,
+    setLineJoin,
+    setLineWidth,
+    setStrokingRgbColor,
+    setTextMatrix,
+    showText,
+    stroke,
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFString,
+    StandardFonts,
+    type PDFFont,
+    type PDFOperator,
+    type PDFPage,
+    type PDFRef
+} from 'pdf-lib';
+import type { Annotation, PDFAnnotations, Point, Shape, Stroke, TextBox, TextMarkup } from '../types/annotationTypes';
+import { MARKUP_OPACITY, NOTE_TEXT_COLOR, segmentWidth, TEXT_LINE_HEIGHT, TEXT_PADDING, underlineWidth } from './drawing';
+import { getAnnotationsBounds } from './geometry';
+import { shapeOutline } from './erasing';
+import { toFontCharacters, wrapPdfText } from './pdfText';
+
+// An affine transform [a b c d e f], as in a PDF `cm` operator
+export type Matrix = [number, number, number, number, number, number];
+
+export interface PageGeometry {
+    // The visible area of the page (its crop box), in PDF user space
+    box: { x: number; y: number; width: number; height: number };
+    // Clockwise rotation the page is shown with: 0, 90, 180 or 270
+    rotation: number;
+}
+
+// Name of the font in appearance streams and default appearances
+const FONT_NAME = 'Helv';
+// Annotation flag: print the annotation with the page
+const PRINT_FLAG = 4;
+// Graphics state that blends highlights into the page like a marker
+const MARKUP_STATE = 'Markup';
+
+const quarterTurnsOf = (rotation: number) => (((rotation % 360) + 360) % 360) / 90;
+
+const geometryOf = (page: PDFPage): PageGeometry => ({ box: page.getCropBox(), rotation: page.getRotation().angle });
+
+// The transform from page coordinates to PDF user space: the same unit, turned and flipped
+export function pageToPdfMatrix({ box, rotation }: PageGeometry): Matrix {
+    const { x, y, width, height } = box;
+
+    switch (quarterTurnsOf(rotation)) {
+        case 1:
+            return [0, 1, 1, 0, x, y];
+        case 2:
+            return [-1, 0, 0, 1, x + width, y];
+        case 3:
+            return [0, -1, -1, 0, x + width, y + height];
+        default:
+            return [1, 0, 0, -1, x, y + height];
+    }
+}
+
+export function applyMatrix([a, b, c, d, e, f]: Matrix, point: Point): Point {
+    return { x: a * point.x + c * point.y + e, y: b * point.x + d * point.y + f };
+}
+
+// How much longer a length gets under the matrix (page coordinates to points)
+const matrixScale = ([a, b]: Matrix) => Math.hypot(a, b);
+
+export function hexToRgb(color: string): [number, number, number] {
+    const hex = color.replace('#', '');
+    const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+    const value = parseInt(full, 16);
+    if (Number.isNaN(value)) return [0, 0, 0];
+    return [(value >> 16 & 255) / 255, (value >> 8 & 255) / 255, (value & 255) / 255];
+}
+
+const flatten = (points: Point[]) => points.flatMap(point => [point.x, point.y]);
+
+// The annotation's bounding box in PDF user space, as [x1 y1 x2 y2]
+function pdfRect(annotation: Annotation, matrix: Matrix): number[] {
+    const bounds = getAnnotationsBounds([annotation]);
+    if (!bounds) return [0, 0, 0, 0];
+
+    const corners = [
+        { x: bounds.minX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.maxY }
+    ].map(point => applyMatrix(matrix, point));
+    return [
+        Math.min(corners[0].x, corners[1].x),
+        Math.min(corners[0].y, corners[1].y),
+        Math.max(corners[0].x, corners[1].x),
+        Math.max(corners[0].y, corners[1].y)
+    ];
+}
+
+// Appearance streams are drawn in page coordinates, mapped into the page by a `cm`
+function lineStyle(color: string): PDFOperator[] {
+    return [
+        setStrokingRgbColor(...hexToRgb(color)),
+        setLineCap(LineCapStyle.Round),
+        setLineJoin(LineJoinStyle.Round)
+    ];
+}
+
+function strokeOperators(item: Stroke): PDFOperator[] {
+    const { points, lineWidth } = item;
+    const operators = lineStyle(item.color);
+
+    // Pen strokes vary in width, so each segment is stroked on its own, as on the canvas
+    if (points.some(point => point.pressure !== undefined)) {
+        points.slice(1).forEach((to, i) => {
+            const from = points[i];
+            operators.push(setLineWidth(segmentWidth(lineWidth, from, to)), moveTo(from.x, from.y), lineTo(to.x, to.y), stroke());
+        });
+        return operators;
+    }
+
+    operators.push(setLineWidth(lineWidth), moveTo(points[0].x, points[0].y));
+    points.slice(1).forEach(point => operators.push(lineTo(point.x, point.y)));
+    operators.push(stroke());
+    return operators;
+}
+
+function shapeOperators(shape: Shape): PDFOperator[] {
+    const operators = [...lineStyle(shape.color), setLineWidth(shape.lineWidth)];
+    shapeOutline(shape).forEach(line => {
+        operators.push(moveTo(line[0].x, line[0].y));
+        line.slice(1).forEach(point => operators.push(lineTo(point.x, point.y)));
+        const last = line[line.length - 1];
+        if (line.length > 2 && last.x === line[0].x && last.y === line[0].y) {
+            operators.push(closePath());
+        }
+    });
+    operators.push(stroke());
+    return operators;
+}
+
+function textBoxOperators(box: TextBox, font: PDFFont): PDFOperator[] {
+    const operators: PDFOperator[] = [];
+    if (box.kind === 'note') {
+        // Notes keep their size; text that doesn't fit is cut off at the edge
+        operators.push(
+            setFillingRgbColor(...hexToRgb(box.color)),
+            rectangle(box.x, box.y, box.width, box.height),
+            fill(),
+            rectangle(box.x, box.y, box.width, box.height),
+            clip(),
+            endPath()
+        );
+    }
+
+    const lineHeight = box.fontSize * TEXT_LINE_HEIGHT;
+    const top = box.y + TEXT_PADDING + (lineHeight - box.fontSize) / 2 + font.heightAtSize(box.fontSize, { descender: false });
+    const lines = wrapPdfText(toFontCharacters(box.text, font), font, box.fontSize, box.width - TEXT_PADDING * 2);
+
+    operators.push(
+        beginText(),
+        setFontAndSize(FONT_NAME, box.fontSize),
+        setFillingRgbColor(...hexToRgb(box.kind === 'note' ? NOTE_TEXT_COLOR : box.color))
+    );
+    lines.forEach((line, i) => {
+        // Blank lines (the user's own line breaks) only take up their space
+        if (!line) return;
+        // Page coordinates point down, so the text matrix flips glyphs back upright
+        operators.push(setTextMatrix(1, 0, 0, -1, box.x + TEXT_PADDING, top + i * lineHeight), showText(font.encodeText(line)));
+    });
+    operators.push(endText());
+    return operators;
+}
+
+function markupOperators(markup: TextMarkup): PDFOperator[] {
+    if (markup.kind === 'underline') {
+        return [
+            setFillingRgbColor(...hexToRgb(markup.color)),
+            ...markup.rects.map(rect => {
+                const width = underlineWidth(rect.height);
+                return rectangle(rect.x, rect.y + rect.height - width, rect.width, width);
+            }),
+            fill()
+        ];
+    }
+    return [
+        setGraphicsState(MARKUP_STATE),
+        setFillingRgbColor(...hexToRgb(markup.color)),
+        ...markup.rects.map(rect => rectangle(rect.x, rect.y, rect.width, rect.height)),
+        fill()
+    ];
+}
+
+function appearanceStream(doc: PDFDocument, rect: number[], matrix: Matrix, operators: PDFOperator[], resources: Record<string, unknown> = {}): PDFRef {
+    const stream = doc.context.formXObject(
+        [pushGraphicsState(), concatTransformationMatrix(...matrix), ...operators, popGraphicsState()],
+        { BBox: rect, Resources: resources } as Parameters<typeof doc.context.formXObject>[1]
+    );
+    return doc.context.register(stream);
+}
+
+function buildAnnotation(doc: PDFDocument, annotation: Annotation, matrix: Matrix, font: PDFFont | null): PDFRef | null {
+    const scale = matrixScale(matrix);
+    const rect = pdfRect(annotation, matrix);
+    const toPdf = (point: Point) => applyMatrix(matrix, point);
+    const common = {
+        Type: 'Annot',
+        Rect: rect,
+        F: PRINT_FLAG,
+        ...(annotation.type !== 'text' && annotation.comment ? { Contents: PDFHexString.fromText(annotation.comment) } : {})
+    };
+    let entries: Record<string, unknown>;
+
+    if (annotation.type === 'stroke') {
+        if (annotation.points.length < 2) return null;
+        entries = {
+            Subtype: 'Ink',
+            InkList: [flatten(annotation.points.map(toPdf))],
+            C: hexToRgb(annotation.color),
+            BS: { W: annotation.lineWidth * scale },
+            AP: { N: appearanceStream(doc, rect, matrix, strokeOperators(annotation)) }
+        };
+    } else if (annotation.type === 'shape') {
+        const width = annotation.lineWidth * scale;
+        const appearance = { N: appearanceStream(doc, rect, matrix, shapeOperators(annotation)) };
+        const style = { C: hexToRgb(annotation.color), BS: { W: width }, AP: appearance };
+
+        switch (annotation.kind) {
+            case 'rectangle':
+            case 'ellipse':
+                // RD is the space between Rect and the shape's own box: the half of the border outside it
+                entries = { Subtype: annotation.kind === 'rectangle' ? 'Square' : 'Circle', RD: [width / 2, width / 2, width / 2, width / 2], ...style };
+                break;
+            case 'triangle':
+                entries = { Subtype: 'Polygon', Vertices: flatten(shapeOutline(annotation)[0].slice(0, 3).map(toPdf)), ...style };
+                break;
+            case 'line':
+            case 'arrow':
+                entries = {
+                    Subtype: 'Line',
+                    L: flatten([annotation.start, annotation.end].map(toPdf)),
+                    LE: ['None', annotation.kind === 'arrow' ? 'OpenArrow' : 'None'],
+                    ...style
+                };
+                break;
+        }
+    } else if (annotation.type === 'markup') {
+        // Each line's corners, in the order readers expect: upper left, upper right, lower left, lower right
+        const quads = annotation.rects.flatMap(line => flatten([
+            { x: line.x, y: line.y },
+            { x: line.x + line.width, y: line.y },
+            { x: line.x, y: line.y + line.height },
+            { x: line.x + line.width, y: line.y + line.height }
+        ].map(toPdf)));
+        if (annotation.kind === 'underline') {
+            entries = {
+                Subtype: 'Underline',
+                QuadPoints: quads,
+                C: hexToRgb(annotation.color),
+                AP: { N: appearanceStream(doc, rect, matrix, markupOperators(annotation)) }
+            };
+        } else {
+            const resources = { ExtGState: { [MARKUP_STATE]: { Type: 'ExtGState', ca: MARKUP_OPACITY, BM: 'Multiply' } } };
+            entries = {
+                Subtype: 'Highlight',
+                QuadPoints: quads,
+                C: hexToRgb(annotation.color),
+                CA: MARKUP_OPACITY,
+                AP: { N: appearanceStream(doc, rect, matrix, markupOperators(annotation), resources) }
+            };
+        }
+    } else {
+        if (!font || !annotation.text.trim()) return null;
+        const [r, g, b] = hexToRgb(annotation.kind === 'note' ? NOTE_TEXT_COLOR : annotation.color);
+        entries = {
+            Subtype: 'FreeText',
+            Contents: PDFHexString.fromText(annotation.text),
+            DA: PDFString.of(`/${FONT_NAME} ${annotation.fontSize * scale} Tf ${r} ${g} ${b} rg`),
+            // Sticky notes are filled boxes; plain text has no background
+            C: annotation.kind === 'note' ? hexToRgb(annotation.color) : [],
+            AP: { N: appearanceStream(doc, rect, matrix, textBoxOperators(annotation, font), { Font: { [FONT_NAME]: font.ref } }) }
+        };
+    }
+
+    return doc.context.register(doc.context.obj({ ...common, ...entries } as Parameters<typeof doc.context.obj>[0]));
+}
+
+// Adds every page's annotations to the document as PDF annotations
+export async function writeAnnotations(doc: PDFDocument, annotations: PDFAnnotations): Promise<void> {
+    const hasText = Object.values(annotations).some(items => items.some(item => item.type === 'text'));
+    const font = hasText ? await doc.embedFont(StandardFonts.Helvetica) : null;
+
+    doc.getPages().forEach((page, index) => {
+        const items = annotations[index + 1];
+        if (!items || items.length === 0) return;
+
+        const matrix = pageToPdfMatrix(geometryOf(page));
+        items.forEach(annotation => {
+            const ref = buildAnnotation(doc, annotation, matrix, font);
+            if (ref) {
+                page.node.addAnnot(ref);
+            }
+        });
+    });
+}
+
+// Draws annotations as the page's own content rather than as annotations, e.g. for a board
+// exported as a PDF. The matrix maps their coordinates into the page.
+export async function drawOnPage(doc: PDFDocument, page: PDFPage, annotations: Annotation[], matrix: Matrix): Promise<void> {
+    const font = annotations.some(item => item.type === 'text') ? await doc.embedFont(StandardFonts.Helvetica) : null;
+    if (font) {
+        page.node.setFontDictionary(PDFName.of(FONT_NAME), font.ref);
+    }
+    if (annotations.some(item => item.type === 'markup')) {
+        page.node.setExtGState(PDFName.of(MARKUP_STATE), doc.context.obj({ Type: 'ExtGState', ca: MARKUP_OPACITY, BM: 'Multiply' }));
+    }
+
+    const operators = annotations.flatMap(annotation => {
+        let itemOperators: PDFOperator[] = [];
+        if (annotation.type === 'stroke') {
+            itemOperators = annotation.points.length < 2 ? [] : strokeOperators(annotation);
+        } else if (annotation.type === 'shape') {
+            itemOperators = shapeOperators(annotation);
+        } else if (annotation.type === 'markup') {
+            itemOperators = markupOperators(annotation);
+        } else if (font) {
+            itemOperators = textBoxOperators(annotation, font);
+        }
+        // Each item gets its own graphics state, so a note's clip doesn't cut off what follows
+        return itemOperators.length > 0 ? [pushGraphicsState(), ...itemOperators, popGraphicsState()] : [];
+    });
+    page.pushOperators(pushGraphicsState(), concatTransformationMatrix(...matrix), ...operators, popGraphicsState());
+}
+
+// Reading
+
+// Subtypes that become editable annotations; everything else (links, forms, comments...) stays in the file
+const IMPORTED_SUBTYPES = ['Ink', 'Square', 'Circle', 'Line', 'Polygon', 'PolyLine', 'FreeText', 'Highlight', 'Underline'];
+const ARROW_ENDINGS = ['OpenArrow', 'ClosedArrow'];
+const DEFAULT_HIGHLIGHT_COLOR = '#ffeb3b';
+
+function invertMatrix([a, b, c, d, e, f]: Matrix): Matrix {
+    const det = a * d - b * c;
+    return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const numbersOf = (array: PDFArray | undefined): number[] =>
+    array ? array.asArray().map((_, i) => array.lookupMaybe(i, PDFNumber)?.asNumber() ?? 0) : [];
+
+const lookupNumbers = (dict: PDFDict, key: string) => numbersOf(dict.lookupMaybe(PDFName.of(key), PDFArray));
+
+const lookupText = (dict: PDFDict, key: string) => dict.lookupMaybe(PDFName.of(key), PDFString, PDFHexString)?.decodeText();
+
+function pairsToPoints(numbers: number[]): Point[] {
+    const points: Point[] = [];
+    for (let i = 0; i + 1 < numbers.length; i += 2) {
+        points.push({ x: numbers[i], y: numbers[i + 1] });
+    }
+    return points;
+}
+
+// PDF colors come as gray, RGB or CMYK components from 0 to 1
+function componentsToHex(components: number[]): string | null {
+    let rgb: number[];
+    if (components.length === 1) {
+        rgb = [components[0], components[0], components[0]];
+    } else if (components.length === 3) {
+        rgb = components;
+    } else if (components.length === 4) {
+        const [c, m, y, k] = components;
+        rgb = [(1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k)];
+    } else {
+        return null;
+    }
+    return '#' + rgb.map(value => Math.round(Math.min(1, Math.max(0, value)) * 255).toString(16).padStart(2, '0')).join('');
+}
+
+function borderWidth(dict: PDFDict): number {
+    const width = dict.lookupMaybe(PDFName.of('BS'), PDFDict)?.lookupMaybe(PDFName.of('W'), PDFNumber)?.asNumber();
+    return width ?? lookupNumbers(dict, 'Border')[2] ?? 1;
+}
+
+// Page-space box of a PDF rectangle [x1 y1 x2 y2]
+function pageBox(rect: number[], toPage: (point: Point) => Point) {
+    const a = toPage({ x: rect[0], y: rect[1] });
+    const b = toPage({ x: rect[2], y: rect[3] });
+    return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) };
+}
+
+function readAnnotation(dict: PDFDict, subtype: string, matrix: Matrix): Annotation[] {
+    const inverse = invertMatrix(matrix);
+    const scale = matrixScale(matrix);
+    const toPage = (point: Point): Point => {
+        const { x, y } = applyMatrix(inverse, point);
+        return { x: round(x), y: round(y) };
+    };
+    const color = componentsToHex(lookupNumbers(dict, 'C'));
+    const rect = lookupNumbers(dict, 'Rect');
+    const lineWidth = round(borderWidth(dict) / scale);
+    const ink = { color: color ?? '#000000', lineWidth: lineWidth || 1 };
+
+    switch (subtype) {
+        case 'Ink': {
+            const inkList = dict.lookupMaybe(PDFName.of('InkList'), PDFArray);
+            if (!inkList) return [];
+            return inkList.asArray()
+                .map((_, i) => pairsToPoints(numbersOf(inkList.lookupMaybe(i, PDFArray))).map(toPage))
+                .filter(points => points.length >= 2)
+                .map((points): Stroke => ({ type: 'stroke', points, ...ink }));
+        }
+        case 'Square':
+        case 'Circle': {
+            if (rect.length < 4) return [];
+            // RD insets the shape's box from Rect; without it the border sits just inside Rect
+            const [left, top, right, bottom] = lookupNumbers(dict, 'RD').length === 4
+                ? lookupNumbers(dict, 'RD')
+                : Array(4).fill(borderWidth(dict) / 2);
+            const box = pageBox([rect[0] + left, rect[1] + bottom, rect[2] - right, rect[3] - top], toPage);
+            return [{
+                type: 'shape',
+                kind: subtype === 'Square' ? 'rectangle' : 'ellipse',
+                start: { x: box.x, y: box.y },
+                end: { x: box.x + box.width, y: box.y + box.height },
+                ...ink
+            }];
+        }
+        case 'Line': {
+            const [start, end] = pairsToPoints(lookupNumbers(dict, 'L')).map(toPage);
+            if (!start || !end) return [];
+            const endings = dict.lookupMaybe(PDFName.of('LE'), PDFArray)?.asArray()
+                .map(ending => (ending instanceof PDFName ? ending.decodeText() : '')) ?? [];
+            // Arrows point at their end; one with only its start marked is turned around
+            if (ARROW_ENDINGS.includes(endings[1])) {
+                return [{ type: 'shape', kind: 'arrow', start, end, ...ink }];
+            }
+            if (ARROW_ENDINGS.includes(endings[0])) {
+                return [{ type: 'shape', kind: 'arrow', start: end, end: start, ...ink }];
+            }
+            return [{ type: 'shape', kind: 'line', start, end, ...ink }];
+        }
+        case 'Polygon':
+        case 'PolyLine': {
+            const points = pairsToPoints(lookupNumbers(dict, 'Vertices')).map(toPage);
+            if (points.length < 2) return [];
+            if (subtype === 'Polygon' && points.length === 3) {
+                const xs = points.map(point => point.x);
+                const ys = points.map(point => point.y);
+                return [{
+                    type: 'shape',
+                    kind: 'triangle',
+                    start: { x: Math.min(...xs), y: Math.min(...ys) },
+                    end: { x: Math.max(...xs), y: Math.max(...ys) },
+                    vertices: points,
+                    ...ink
+                }];
+            }
+            return [{ type: 'stroke', points: subtype === 'Polygon' ? [...points, points[0]] : points, ...ink }];
+        }
+        case 'FreeText': {
+            const text = lookupText(dict, 'Contents');
+            if (!text || rect.length < 4) return [];
+            // The default appearance holds the font size and text color, e.g. "/Helv 12 Tf 0 0 1 rg"
+            const appearance = lookupText(dict, 'DA') ?? '';
+            const fontSize = Number(appearance.match(/([\d.]+)\s+Tf/)?.[1] ?? 12) / scale;
+            const textColor = appearance.match(/([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+rg/)?.slice(1).map(Number)
+                ?? appearance.match(/([\d.]+)\s+g(?:\s|$)/)?.slice(1).map(Number);
+            const box = pageBox(rect, toPage);
+            return [{
+                type: 'text',
+                // A filled box reads as a sticky note; otherwise it is plain text
+                kind: color ? 'note' : 'text',
+                id: crypto.randomUUID(),
+                ...box,
+                text,
+                color: color ?? componentsToHex(textColor ?? []) ?? '#000000',
+                fontSize: round(fontSize)
+            }];
+        }
+        case 'Highlight':
+        case 'Underline': {
+            const quads = lookupNumbers(dict, 'QuadPoints');
+            const lines: number[][] = [];
+            for (let i = 0; i + 7 < quads.length; i += 8) {
+                const corners = pairsToPoints(quads.slice(i, i + 8));
+                const xs = corners.map(point => point.x);
+                const ys = corners.map(point => point.y);
+                lines.push([Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]);
+            }
+            if (lines.length === 0 && rect.length === 4) lines.push(rect);
+            if (lines.length === 0) return [];
+            return [{
+                type: 'markup',
+                kind: subtype === 'Underline' ? 'underline' : 'highlight',
+                rects: lines.map(line => pageBox(line, toPage)),
+                color: color ?? DEFAULT_HIGHLIGHT_COLOR
+            }];
+        }
+        default:
+            return [];
+    }
+}
+
+// Takes the annotations it can read out of the document and returns them in page coordinates,
+// keyed by page number. Popups attached to them go too, their comments moving onto the imported
+// items; the rest of the page's annotations, including any it couldn't read, stay.
+export function extractAnnotations(doc: PDFDocument): PDFAnnotations {
+    const result: PDFAnnotations = {};
+
+    doc.getPages().forEach((page, index) => {
+        const annots = page.node.Annots();
+        if (!annots) return;
+
+        const matrix = pageToPdfMatrix(geometryOf(page));
+        const imported: Annotation[] = [];
+        const removed = new Set<PDFDict>();
+
+        annots.asArray().forEach((_, i) => {
+            const dict = annots.lookupMaybe(i, PDFDict);
+            const subtype = dict?.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+            if (!dict || !subtype || !IMPORTED_SUBTYPES.includes(subtype)) return;
+
+            // Markup we can't read stays in the file as it is
+            const items = readAnnotation(dict, subtype, matrix);
+            if (items.length === 0) return;
+
+            // A FreeText's Contents is its text; on anything else it is a comment, kept with the
+            // first item so it is written back (and its popup recreated by readers) on save
+            const comment = subtype === 'FreeText' ? undefined : lookupText(dict, 'Contents')?.trim();
+            if (comment && items[0].type !== 'text') {
+                items[0] = { ...items[0], comment };
+            }
+            imported.push(...items);
+            removed.add(dict);
+        });
+        if (removed.size === 0) return;
+
+        // Walk backwards so removing entries doesn't shift the ones still to visit
+        for (let i = annots.size() - 1; i >= 0; i--) {
+            const dict = annots.lookupMaybe(i, PDFDict);
+            const parent = dict?.lookupMaybe(PDFName.of('Parent'), PDFDict);
+            if (dict && (removed.has(dict) || (parent && removed.has(parent)))) {
+                annots.remove(i);
+            }
+        }
+        if (imported.length > 0) {
+            result[index + 1] = imported;
+        }
+    });
+
+    return result;
+}
+
+// Reads a freshly opened PDF's markup into editable annotations. The document comes back without
+// that markup (the viewer would paint it under the editable copies otherwise); it is written back
+// on save. A PDF without supported markup, or one that can't be parsed, is returned unchanged.
+export async function importAnnotations(file: File): Promise<{ file: File; annotations: PDFAnnotations }> {
+    try {
+        const doc = await PDFDocument.load(await file.arrayBuffer());
+        const annotations = extractAnnotations(doc);
+        if (Object.keys(annotations).length === 0) {
+            return { file, annotations };
+        }
+
+        const bytes = await doc.save();
+        return { file: new File([new Uint8Array(bytes)], file.name, { type: 'application/pdf' }), annotations };
+    } catch (err) {
+        console.error('Could not read the PDF\'s annotations:', err);
+        return { file, annotations: {} };
+    }
+}
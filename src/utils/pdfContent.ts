@@ -0,0 +1,170 @@
+// Text content of an open PDF, read with pdf.js: each page's text and the document's title and
+// outline. Sent to the AI as text next to the page image, so it reads small print and numbers
+// exactly instead of recognizing them from pixels.
+
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+export interface OutlineEntry {
+    title: string;
+    // Page the entry points to, when it points into the document
+    pageNumber: number | null;
+    // 0 for top-level entries
+    depth: number;
+}
+
+export interface DocumentInfo {
+    title: string;
+    author: string;
+    pageCount: number;
+    outline: OutlineEntry[];
+}
+
+// A page's size in points as it is shown (after its rotation)
+export interface PageSize {
+    width: number;
+    height: number;
+}
+
+export interface PageText {
+    pageNumber: number;
+    text: string;
+}
+
+// About 4 characters per token, so roughly 4000 tokens of text per request
+export const DEFAULT_TEXT_BUDGET = 16000;
+
+// Share of the budget the title and outline may use before the page text
+const OUTLINE_SHARE = 0.2;
+
+// The page's runs of text as pdf.js reports them, in the order its text layer shows them
+export async function readTextItems(page: PDFPageProxy): Promise<TextItem[]> {
+    const content = await page.getTextContent();
+    return content.items.filter((item): item is TextItem => 'str' in item);
+}
+
+// A page's text in reading order, with its line breaks
+export function joinTextItems(items: TextItem[]): string {
+    return items
+        .map(item => item.str + (item.hasEOL ? '\n' : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+// Outline destinations are either named or explicit, with a page reference or index first
+async function destinationPage(pdf: PDFDocumentProxy, dest: string | unknown[] | null): Promise<number | null> {
+    try {
+        const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+        const target = explicit?.[0];
+        if (typeof target === 'number') return target + 1;
+        if (target && typeof target === 'object') return (await pdf.getPageIndex(target as Parameters<PDFDocumentProxy['getPageIndex']>[0])) + 1;
+    } catch (err) {
+        console.warn('Could not resolve an outline entry:', err);
+    }
+    return null;
+}
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+async function flattenOutline(pdf: PDFDocumentProxy, nodes: OutlineNode[], depth: number): Promise<OutlineEntry[]> {
+    const entries: OutlineEntry[] = [];
+    for (const node of nodes) {
+        entries.push({ title: node.title.trim(), pageNumber: await destinationPage(pdf, node.dest), depth });
+        entries.push(...await flattenOutline(pdf, node.items ?? [], depth + 1));
+    }
+    return entries;
+}
+
+export async function readDocumentInfo(pdf: PDFDocumentProxy): Promise<DocumentInfo> {
+    const [metadata, outline] = await Promise.all([
+        pdf.getMetadata().catch(() => null),
+        pdf.getOutline().catch(() => null)
+    ]);
+    // The XMP title is usually better maintained than the info dictionary's
+    const info = (metadata?.info ?? {}) as Record<string, unknown>;
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+    return {
+        title: text(metadata?.metadata?.get('dc:title')) || text(info.Title),
+        author: text(info.Author),
+        pageCount: pdf.numPages,
+        outline: outline ? await flattenOutline(pdf, outline, 0) : []
+    };
+}
+
+// Cuts text to the length, keeping its start and a little of its end (totals and conclusions
+// tend to come last) with a note of how much was left out. Cuts fall between lines where one is
+// close by, otherwise between words.
+function truncateText(text: string, length: number): string {
+    if (text.length <= length) return text;
+
+    const headLength = Math.floor(length * 0.75);
+    const tailLength = Math.max(0, length - headLength);
+
+    let head = text.slice(0, headLength);
+    const lastBreak = head.lastIndexOf('\n');
+    head = lastBreak > head.length * 0.8 ? head.slice(0, lastBreak) : head.replace(/\s+\S*$/, '');
+
+    let tail = tailLength > 0 ? text.slice(text.length - tailLength) : '';
+    const firstBreak = tail.indexOf('\n');
+    tail = firstBreak >= 0 && firstBreak < tail.length / 2 ? tail.slice(firstBreak + 1) : tail.replace(/^\S*\s+/, '');
+
+    const omitted = text.length - head.length - tail.length;
+    return `${head}\n[… ${omitted} characters omitted …]${tail ? `\n${tail}` : ''}`;
+}
+
+function formatOutline(outline: OutlineEntry[], length: number): string {
+    const lines: string[] = [];
+    let used = 0;
+    for (const entry of outline) {
+        const line = `${'  '.repeat(entry.depth)}- ${entry.title}${entry.pageNumber ? ` (p. ${entry.pageNumber})` : ''}`;
+        if (used + line.length > length) {
+            lines.push(`  … ${outline.length - lines.length} more entries`);
+            break;
+        }
+        lines.push(line);
+        used += line.length + 1;
+    }
+    return lines.join('\n');
+}
+
+// The document's details and the pages' text, within roughly `budget` characters. Pages share
+// what is left after the outline; a short page leaves its unused share to the longer ones.
+export function formatDocumentText(info: DocumentInfo | null, pages: PageText[], budget = DEFAULT_TEXT_BUDGET): string {
+    const sections: string[] = [];
+
+    if (info) {
+        const details = [
+            info.title && `Title: ${info.title}`,
+            info.author && `Author: ${info.author}`,
+            `Pages: ${info.pageCount}`
+        ].filter(Boolean);
+        sections.push(`Document details:\n${details.join('\n')}`);
+        if (info.outline.length > 0) {
+            sections.push(`Outline:\n${formatOutline(info.outline, budget * OUTLINE_SHARE)}`);
+        }
+    }
+
+    let remaining = budget - sections.reduce((sum, section) => sum + section.length, 0);
+    // Shortest first, so whatever a short page doesn't use goes to the pages after it
+    const shares = new Map<number, string>();
+    [...pages].sort((a, b) => a.text.length - b.text.length).forEach((page, i, sorted) => {
+        const share = Math.max(0, Math.floor(remaining / (sorted.length - i)));
+        const text = truncateText(page.text, share);
+        shares.set(page.pageNumber, text);
+        remaining -= text.length;
+    });
+
+    pages.forEach(page => {
+        const text = shares.get(page.pageNumber);
+        sections.push(`Text of page ${page.pageNumber}:\n${text || '(no extractable text; the page may be scanned)'}`);
+    });
+
+    return [
+        'Text extracted from the PDF (exact wording and numbers, without the layout):',
+        ...sections
+    ].join('\n\n');
+}
@@ -0,0 +1,74 @@
+// Full-text search over an open PDF. Matches are found within the page's runs of text, the same
+// runs its text layer renders, so each hit can be marked on the page where it was found.
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { joinTextItems } from './pdfContent';
+
+export interface SearchHit {
+    pageNumber: number;
+    // Index of the run of text the match is in, and where in it the match starts
+    itemIndex: number;
+    start: number;
+    // The match with a little of the text around it, for the results list
+    snippet: string;
+}
+
+// More hits than this are of no use in a list; the search stops there
+export const MAX_SEARCH_HITS = 500;
+
+// Characters of context either side of a match in its snippet
+const SNIPPET_CONTEXT = 40;
+
+const normalize = (text: string) => text.toLocaleLowerCase();
+
+// Where the query occurs in the text, ignoring case, without overlaps
+function findMatches(text: string, query: string): number[] {
+    const needle = normalize(query.trim());
+    if (!needle) return [];
+    const haystack = normalize(text);
+    const starts: number[] = [];
+    for (let index = haystack.indexOf(needle); index >= 0; index = haystack.indexOf(needle, index + needle.length)) {
+        starts.push(index);
+    }
+    return starts;
+}
+
+export function searchPage(pageNumber: number, items: TextItem[], query: string): SearchHit[] {
+    const length = query.trim().length;
+    const hits: SearchHit[] = [];
+    items.forEach((item, itemIndex) => {
+        const matches = findMatches(item.str, query);
+        if (matches.length === 0) return;
+        // Context comes from the neighbouring runs too, as a run is often a single word
+        const before = joinTextItems(items.slice(Math.max(0, itemIndex - 5), itemIndex));
+        const after = joinTextItems(items.slice(itemIndex + 1, itemIndex + 6));
+        matches.forEach(start => {
+            const text = `${before} ${item.str} ${after}`;
+            const at = before.length + 1 + start;
+            const from = Math.max(0, at - SNIPPET_CONTEXT);
+            const to = Math.min(text.length, at + length + SNIPPET_CONTEXT);
+            const snippet = `${from > 0 ? '…' : ''}${text.slice(from, to)}${to < text.length ? '…' : ''}`;
+            hits.push({ pageNumber, itemIndex, start, snippet: snippet.replace(/\s+/g, ' ').trim() });
+        });
+    });
+    return hits;
+}
+
+// Identifies a hit within its page's text layer
+export const hitKey = (hit: Pick<SearchHit, 'itemIndex' | 'start'>) => `${hit.itemIndex}-${hit.start}`;
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A run of text as HTML for the text layer, with each match wrapped in a <mark>
+export function highlightMatches(text: string, query: string, itemIndex: number, className: string): string {
+    const length = query.trim().length;
+    let html = '';
+    let last = 0;
+    findMatches(text, query).forEach(start => {
+        html += escapeHtml(text.slice(last, start));
+        html += `<mark class="${className}" data-hit="${hitKey({ itemIndex, start })}">${escapeHtml(text.slice(start, start + length))}</mark>`;
+        last = start + length;
+    });
+    return html + escapeHtml(text.slice(last));
+}
@@ -0,0 +1,40 @@
+// Text helpers for writing with pdf-lib's standard fonts
+
+import type { PDFFont } from 'pdf-lib';
+
+// The standard PDF fonts only cover WinAnsi; anything else (emoji, CJK, ...) becomes '?'.
+// Line breaks aren't in the font either, but are kept as \n for wrapPdfText to split on.
+export function toFontCharacters(text: string, font: PDFFont): string {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    '))
+        .map(char => (char === '\n' || supported.has(char.codePointAt(0) ?? 0) ? char : '?'))
+        .join('');
+}
+
+// Greedy word wrap; words longer than a line are broken wherever they run out of room
+export function wrapPdfText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+    const fits = (line: string) => font.widthOfTextAtSize(line, size) <= maxWidth;
+    const lines: string[] = [];
+
+    text.split(/\r?\n/).forEach(paragraph => {
+        let line = '';
+        paragraph.split(/(\s+)/).forEach(word => {
+            const candidate = line + word;
+            if (fits(candidate.trimEnd())) {
+                line = candidate;
+                return;
+            }
+            if (line.trim()) lines.push(line.trimEnd());
+            line = word.trimStart();
+            while (line && !fits(line)) {
+                let cut = Math.max(1, line.length - 1);
+                while (cut > 1 && !fits(line.slice(0, cut))) cut--;
+                lines.push(line.slice(0, cut));
+                line = line.slice(cut);
+            }
+        });
+        lines.push(line.trimEnd());
+    });
+
+    return lines;
+}
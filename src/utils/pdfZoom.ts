@@ -0,0 +1,46 @@
+// Zoom for PDF mode. Pages are laid out in points and shown at a scale in CSS pixels per point;
+// the zoom is either a fixed scale or a fit that is worked out again whenever the view resizes.
+
+import type { PageSize } from './pdfContent';
+
+export type PdfZoom = 'auto' | 'page-width' | 'page-fit' | number;
+
+// A point is 1/72 inch and a CSS pixel 1/96, so this scale shows a page at its printed size (100%)
+export const ACTUAL_SIZE_SCALE = 96 / 72;
+
+export const MIN_PDF_SCALE = 0.25 * ACTUAL_SIZE_SCALE;
+export const MAX_PDF_SCALE = 5 * ACTUAL_SIZE_SCALE;
+
+// "auto" fits the width, but doesn't blow pages up past about 800px wide on large screens
+const AUTO_MAX_SCALE = 1.3;
+
+// Room kept around the page when fitting, in CSS pixels
+const FIT_MARGIN = 32;
+
+const ZOOM_STEP = 1.25;
+
+// Assumed for pages whose size isn't known yet
+export const A4_PAGE_SIZE: PageSize = { width: 595, height: 842 };
+
+const clampScale = (scale: number) => Math.min(MAX_PDF_SCALE, Math.max(MIN_PDF_SCALE, scale));
+
+// The scale a zoom shows pages at, in a view of the given size. Fits are worked out for the
+// largest page size in the document, so every page fits and scrolling doesn't change the zoom.
+export function resolveScale(zoom: PdfZoom, view: { width: number; height: number }, largest: PageSize): number {
+    if (typeof zoom === 'number') return clampScale(zoom);
+
+    const fitWidth = Math.max(1, view.width - FIT_MARGIN * 2) / largest.width;
+    switch (zoom) {
+        case 'page-width':
+            return clampScale(fitWidth);
+        case 'page-fit':
+            return clampScale(Math.min(fitWidth, Math.max(1, view.height - FIT_MARGIN * 2) / largest.height));
+        default:
+            return clampScale(Math.min(fitWidth, AUTO_MAX_SCALE));
+    }
+}
+
+// The next fixed scale in or out from the current one
+export function stepScale(scale: number, direction: 1 | -1): number {
+    return clampScale(direction > 0 ? scale * ZOOM_STEP : scale / ZOOM_STEP);
+}
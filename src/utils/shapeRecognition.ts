@@ -0,0 +1,195 @@
+// Local recognizer for "snap to shape": classifies a finished pen stroke as a line, rectangle,
+// ellipse, triangle or arrow, so rough sketches can be replaced by clean shapes.
+
+import type { Point, Shape, Stroke } from '../types/annotationTypes';
+import { boundsHeight, boundsWidth, getPointsBounds } from './geometry';
+
+// Strokes smaller than this (in either direction) are left alone, e.g. dots and handwriting
+const MIN_SIZE = 16;
+// How straight a stroke must be, as endpoint distance over path length, to count as a line
+const LINE_STRAIGHTNESS = 0.94;
+// A stroke is closed when its ends meet within this fraction of its size
+const CLOSED_GAP = 0.25;
+// Corner simplification tolerance, as a fraction of the stroke's diagonal
+const CORNER_TOLERANCE = 0.09;
+// Mean radial error below which a closed stroke is clearly an ellipse, and the loosest we accept
+const ELLIPSE_STRICT_ERROR = 0.09;
+const ELLIPSE_LOOSE_ERROR = 0.2;
+// Mean distance from the simplified outline, as a fraction of the diagonal, for straight-sided shapes
+const POLYGON_ERROR = 0.025;
+
+// Label of the command that swaps a stroke for its recognized shape; undoing it brings the ink back
+export const SNAP_TO_SHAPE_LABEL = 'Snap to shape';
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+function pathLength(points: Point[]): number {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+        length += distance(points[i - 1], points[i]);
+    }
+    return length;
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point): number {
+    const length = distance(a, b);
+    if (length === 0) return distance(point, a);
+    const t = Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / (length * length)));
+    return distance(point, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+}
+
+// Ramer–Douglas–Peucker: keeps only the points that matter for the overall outline
+function simplify(points: Point[], tolerance: number): Point[] {
+    if (points.length < 3) return points;
+
+    let maxDistance = 0;
+    let index = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+        if (d > maxDistance) {
+            maxDistance = d;
+            index = i;
+        }
+    }
+
+    if (maxDistance <= tolerance) {
+        return [points[0], points[points.length - 1]];
+    }
+    const left = simplify(points.slice(0, index + 1), tolerance);
+    const right = simplify(points.slice(index), tolerance);
+    return [...left.slice(0, -1), ...right];
+}
+
+// Corners of a closed stroke. The stroke is split at its farthest point from the start,
+// so the start itself can be dropped when it lies in the middle of a side.
+function closedCorners(points: Point[], tolerance: number): Point[] {
+    let far = 0;
+    points.forEach((point, i) => {
+        if (distance(points[0], point) > distance(points[0], points[far])) far = i;
+    });
+
+    const first = simplify(points.slice(0, far + 1), tolerance);
+    const second = simplify([...points.slice(far), points[0]], tolerance);
+    const corners = [...first.slice(0, -1), ...second.slice(0, -1)];
+
+    // Drop the start if it sits on a straight side
+    if (corners.length > 3) {
+        const previous = corners[corners.length - 1];
+        if (distanceToSegment(corners[0], previous, corners[1]) <= tolerance) {
+            corners.shift();
+        }
+    }
+    return corners;
+}
+
+function polygonArea(points: Point[]): number {
+    let area = 0;
+    points.forEach((point, i) => {
+        const next = points[(i + 1) % points.length];
+        area += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(area) / 2;
+}
+
+// Average distance of the points from the outline through the given corners, relative to the diagonal
+function polygonError(points: Point[], corners: Point[], diagonal: number): number {
+    const total = points.reduce((sum, point) => {
+        const nearest = Math.min(...corners.map((corner, i) => distanceToSegment(point, corner, corners[(i + 1) % corners.length])));
+        return sum + nearest;
+    }, 0);
+    return total / points.length / diagonal;
+}
+
+// Average distance of the points from the ellipse inscribed in their bounding box, relative to its radius
+function ellipseError(points: Point[], center: Point, rx: number, ry: number): number {
+    const total = points.reduce((sum, point) => {
+        const r = Math.hypot((point.x - center.x) / rx, (point.y - center.y) / ry);
+        return sum + Math.abs(r - 1);
+    }, 0);
+    return total / points.length;
+}
+
+// An arrow drawn in one go: a straight shaft to the tip, then a short head scribbled around it
+function recognizeArrow(points: Point[]): { start: Point; end: Point } | null {
+    const start = points[0];
+    // The head's strokes come back to the tip, so take the first visit rather than the farthest point
+    const reach = Math.max(...points.map(point => distance(start, point)));
+    const tipIndex = points.findIndex(point => distance(start, point) >= reach * 0.97);
+
+    const tip = points[tipIndex];
+    const shaft = points.slice(0, tipIndex + 1);
+    const head = points.slice(tipIndex);
+    const shaftLength = distance(start, tip);
+    if (head.length < 3 || shaftLength < MIN_SIZE * 2) return null;
+    if (shaftLength / pathLength(shaft) < LINE_STRAIGHTNESS) return null;
+
+    const headLength = pathLength(head);
+    if (headLength < shaftLength * 0.15 || headLength > shaftLength * 1.2) return null;
+
+    // The head must stay near the tip and behind it, and reach out to the side
+    const direction = { x: (tip.x - start.x) / shaftLength, y: (tip.y - start.y) / shaftLength };
+    let maxSide = 0;
+    for (const point of head) {
+        const along = (point.x - tip.x) * direction.x + (point.y - tip.y) * direction.y;
+        const side = Math.abs((point.x - tip.x) * direction.y - (point.y - tip.y) * direction.x);
+        if (distance(point, tip) > shaftLength * 0.5 || along > shaftLength * 0.05) return null;
+        maxSide = Math.max(maxSide, side);
+    }
+    if (maxSide < shaftLength * 0.05) return null;
+
+    return { start, end: tip };
+}
+
+export function recognizeShape(stroke: Stroke): Shape | null {
+    const { points } = stroke;
+    const bounds = getPointsBounds(points);
+    if (!bounds || points.length < 3) return null;
+
+    const width = boundsWidth(bounds);
+    const height = boundsHeight(bounds);
+    const size = Math.max(width, height);
+    if (size < MIN_SIZE) return null;
+
+    const base = { type: 'shape' as const, color: stroke.color, lineWidth: stroke.lineWidth };
+    const first = points[0];
+    const last = points[points.length - 1];
+    const length = pathLength(points);
+
+    if (distance(first, last) / length >= LINE_STRAIGHTNESS) {
+        return { ...base, kind: 'line', start: first, end: last };
+    }
+
+    // Open strokes can only be arrows
+    if (distance(first, last) > size * CLOSED_GAP) {
+        const arrow = recognizeArrow(points);
+        return arrow ? { ...base, kind: 'arrow', ...arrow } : null;
+    }
+
+    // Closed strokes need some area to be a shape rather than a scribbled-over line
+    if (Math.min(width, height) < size * 0.1) return null;
+
+    const start = { x: bounds.minX, y: bounds.minY };
+    const end = { x: bounds.maxX, y: bounds.maxY };
+    const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+    const roundness = ellipseError(points, center, width / 2, height / 2);
+    if (roundness < ELLIPSE_STRICT_ERROR) {
+        return { ...base, kind: 'ellipse', start, end };
+    }
+
+    const diagonal = Math.hypot(width, height);
+    const corners = closedCorners(points, diagonal * CORNER_TOLERANCE);
+    const isPolygon = corners.length >= 3 && polygonError(points, corners, diagonal) < POLYGON_ERROR;
+    const fill = polygonArea(corners) / (width * height);
+
+    if (isPolygon && corners.length === 3) {
+        return { ...base, kind: 'triangle', start, end, vertices: corners };
+    }
+    // Four corners filling most of the box; a diamond fills only half of it and isn't snapped
+    if (isPolygon && corners.length === 4) {
+        return fill > 0.75 ? { ...base, kind: 'rectangle', start, end } : null;
+    }
+    if (roundness < ELLIPSE_LOOSE_ERROR) {
+        return { ...base, kind: 'ellipse', start, end };
+    }
+    return null;
+}
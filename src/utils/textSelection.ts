@@ -0,0 +1,86 @@
+// Reads the user's selection in a PDF page's text layer as one rectangle per line of text, in CSS
+// pixels from the page's top left as it is shown (divide by the zoom for page coordinates).
+
+import type { MarkupRect } from '../types/annotationTypes';
+
+export interface PageTextSelection {
+    pageNumber: number;
+    text: string;
+    rects: MarkupRect[];
+}
+
+// react-pdf marks each rendered page with its number
+const PAGE_SELECTOR = '.react-pdf__Page[data-page-number]';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function pageOf(node: Node): HTMLElement | null {
+    const element = node instanceof Element ? node : node.parentElement;
+    return element?.closest<HTMLElement>(PAGE_SELECTOR) ?? null;
+}
+
+// Boxes of just the selected characters; the range's own boxes would also cover whole elements
+// it contains, such as the text layer itself
+function characterRects(range: Range): DOMRect[] {
+    const root = range.commonAncestorContainer;
+    if (root.nodeType === Node.TEXT_NODE) return Array.from(range.getClientRects());
+
+    const rects: DOMRect[] = [];
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (!range.intersectsNode(node)) continue;
+        const part = document.createRange();
+        part.selectNodeContents(node);
+        if (node === range.startContainer) part.setStart(node, range.startOffset);
+        if (node === range.endContainer) part.setEnd(node, range.endOffset);
+        rects.push(...Array.from(part.getClientRects()));
+    }
+    return rects;
+}
+
+// Joins the boxes of neighbouring words into one rectangle per line. Boxes far apart on the same
+// height (e.g. in different columns) stay separate.
+function mergeLines(rects: MarkupRect[]): MarkupRect[] {
+    const lines: MarkupRect[] = [];
+    [...rects].sort((a, b) => a.y - b.y || a.x - b.x).forEach(rect => {
+        const line = lines.find(candidate => {
+            const overlap = Math.min(candidate.y + candidate.height, rect.y + rect.height) - Math.max(candidate.y, rect.y);
+            const gap = Math.max(candidate.x, rect.x) - Math.min(candidate.x + candidate.width, rect.x + rect.width);
+            return overlap > Math.min(candidate.height, rect.height) / 2 && gap < Math.max(candidate.height, rect.height) * 2;
+        });
+        if (!line) {
+            lines.push({ ...rect });
+            return;
+        }
+        const right = Math.max(line.x + line.width, rect.x + rect.width);
+        const bottom = Math.max(line.y + line.height, rect.y + rect.height);
+        line.x = Math.min(line.x, rect.x);
+        line.y = Math.min(line.y, rect.y);
+        line.width = right - line.x;
+        line.height = bottom - line.y;
+    });
+    return lines.map(line => ({ x: round(line.x), y: round(line.y), width: round(line.width), height: round(line.height) }));
+}
+
+// The current selection on a PDF page, or null if nothing on a page is selected. A selection
+// running on past the page it starts on is cut at that page's end.
+export function readPageSelection(): PageTextSelection | null {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+    const range = selection.getRangeAt(0).cloneRange();
+    const page = pageOf(range.startContainer);
+    if (!page) return null;
+    if (pageOf(range.endContainer) !== page) {
+        range.setEnd(page, page.childNodes.length);
+    }
+
+    const origin = page.getBoundingClientRect();
+    const rects = characterRects(range)
+        .filter(rect => rect.width > 0 && rect.height > 0)
+        .map(rect => ({ x: rect.left - origin.left, y: rect.top - origin.top, width: rect.width, height: rect.height }));
+    const text = range.toString().replace(/\s+/g, ' ').trim();
+    if (!text || rects.length === 0) return null;
+
+    return { pageNumber: Number(page.dataset.pageNumber), text, rects: mergeLines(rects) };
+}
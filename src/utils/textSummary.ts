@@ -0,0 +1,62 @@
+// Plain-text description of the typed text on a surface, sent to the AI next to the capture
+// so the model reads our notes exactly instead of recognizing them from pixels.
+
+import { NOTE_COLORS, type Annotation, type PDFAnnotations, type TextBox, type TextMarkup } from '../types/annotationTypes';
+import { boundsHeight, boundsWidth, getAnnotationsBounds, type Bounds } from './geometry';
+
+const noteColorName = (color: string) =>
+    NOTE_COLORS.find(note => note.value.toLowerCase() === color.toLowerCase())?.name ?? color;
+
+// Rough place of a box within everything drawn, e.g. "top left"
+function describePosition(box: TextBox, content: Bounds): string {
+    const third = (offset: number, size: number) => (size <= 0 ? 1 : Math.min(2, Math.floor((offset / size) * 3)));
+    const column = third(box.x + box.width / 2 - content.minX, boundsWidth(content));
+    const row = third(box.y + box.height / 2 - content.minY, boundsHeight(content));
+
+    const vertical = ['top', 'middle', 'bottom'][row];
+    const horizontal = ['left', 'center', 'right'][column];
+    return row === 1 && column === 1 ? 'center' : `${vertical} ${horizontal}`;
+}
+
+function describeTextBoxes(annotations: Annotation[]): string[] {
+    const content = getAnnotationsBounds(annotations);
+    const boxes = annotations
+        .filter((annotation): annotation is TextBox => annotation.type === 'text' && annotation.text.trim() !== '')
+        // Reading order: top to bottom, then left to right
+        .sort((a, b) => (Math.abs(a.y - b.y) > 20 ? a.y - b.y : a.x - b.x));
+
+    return boxes.map(box => {
+        const kind = box.kind === 'note' ? `${noteColorName(box.color)} sticky note` : 'text';
+        const position = content ? `, ${describePosition(box, content)}` : '';
+        return `- ${kind}${position}: ${JSON.stringify(box.text.trim())}`;
+    });
+}
+
+// Passages the user marked, in the order they appear on the page
+function describeMarkup(annotations: Annotation[]): string[] {
+    return annotations
+        .filter((annotation): annotation is TextMarkup & { text: string } => annotation.type === 'markup' && !!annotation.text?.trim())
+        .sort((a, b) => a.rects[0].y - b.rects[0].y || a.rects[0].x - b.rects[0].x)
+        .map(markup => `- ${markup.kind === 'underline' ? 'underlined' : 'highlighted'}: ${JSON.stringify(markup.text.trim())}`);
+}
+
+export function summarizeBoardText(annotations: Annotation[]): string {
+    const lines = describeTextBoxes(annotations);
+    if (lines.length === 0) return '';
+    return ['Typed text on the whiteboard (exact content, in reading order):', ...lines].join('\n');
+}
+
+export function summarizePdfNotes(annotations: PDFAnnotations): string {
+    const sections = Object.keys(annotations)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .map(pageNumber => ({
+            pageNumber,
+            lines: [...describeTextBoxes(annotations[pageNumber]), ...describeMarkup(annotations[pageNumber])]
+        }))
+        .filter(section => section.lines.length > 0)
+        .map(section => [`Page ${section.pageNumber}:`, ...section.lines].join('\n'));
+
+    if (sections.length === 0) return '';
+    return ['Notes and marked passages the user added to the PDF (exact content, in reading order):', ...sections].join('\n');
+}